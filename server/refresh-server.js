@@ -0,0 +1,118 @@
+/**
+ * Local stand-in for the video URL refresh endpoint.
+ *
+ * Implements the contract fetchNewVideoUrl expects so the whole refresh cycle
+ * can be exercised offline:
+ *
+ *   POST /api/refresh  { source: VideoSourceConfig }
+ *   200 { url, expiresAt }
+ *   4xx/5xx { error: { code, message } }
+ *
+ * Issued URLs carry `exp` and `sig` query parameters, so the client schedules
+ * its next refresh from them. Configuration via environment variables:
+ *   PORT                 Port to listen on (default 8787)
+ *   REFRESH_TTL_SECONDS  Lifetime of issued URLs (default 600)
+ *   REFRESH_FAIL_RATE    Fraction of requests answered with a server error (default 0)
+ *   REFRESH_SECRET       Key used to sign issued URLs
+ */
+
+import { createServer } from "node:http";
+import { createHmac } from "node:crypto";
+
+const PORT = Number(process.env.PORT) || 8787;
+const TTL_SECONDS = Number(process.env.REFRESH_TTL_SECONDS) || 600;
+const FAIL_RATE = Number(process.env.REFRESH_FAIL_RATE) || 0;
+const SECRET = process.env.REFRESH_SECRET || "local-refresh-secret";
+
+// Parameters added by a previous refresh that must not be carried over
+const SIGNING_PARAMS = ["exp", "sig", "refresh", "_"];
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, code, message) => {
+  sendJson(res, status, { error: { code, message } });
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+    });
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+
+/**
+ * Issue a fresh signed URL for a source
+ * @param source VideoSourceConfig sent by the client
+ * @returns The new URL and its expiry
+ */
+const issueUrl = (source) => {
+  const url = new URL(source.url);
+  const now = Date.now();
+  const exp = Math.floor(now / 1000) + TTL_SECONDS;
+
+  SIGNING_PARAMS.forEach((param) => url.searchParams.delete(param));
+  // Token-in-path stream URLs carry their issue time as a :timestamp: segment
+  url.pathname = url.pathname.replace(/:(\d{10}|\d{13}):/, `:${now}:`);
+
+  const signature = createHmac("sha256", SECRET)
+    .update(`${url.origin}${url.pathname}:${exp}`)
+    .digest("hex")
+    .slice(0, 32);
+  url.searchParams.set("exp", String(exp));
+  url.searchParams.set("sig", signature);
+
+  return { url: url.toString(), expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  if (req.url !== "/api/refresh") {
+    sendError(res, 404, "not-found", `No route for ${req.url}`);
+    return;
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST, OPTIONS");
+    sendError(res, 405, "method-not-allowed", "Use POST");
+    return;
+  }
+
+  let source;
+  try {
+    source = JSON.parse(await readBody(req)).source;
+    new URL(source.url);
+  } catch {
+    sendError(res, 400, "invalid-config", "Body must be { source: VideoSourceConfig } with a valid url");
+    return;
+  }
+
+  if (Math.random() < FAIL_RATE) {
+    sendError(res, 503, "server", "Simulated upstream failure");
+    return;
+  }
+
+  const refreshed = issueUrl(source);
+  console.log(`[refresh] ${source.providerId || source.baseUrl} -> ${refreshed.url}`);
+  sendJson(res, 200, refreshed);
+});
+
+server.listen(PORT, () => {
+  console.log(`Refresh stand-in listening on http://localhost:${PORT}/api/refresh`);
+});
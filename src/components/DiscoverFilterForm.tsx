@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getDiscoverFilterErrors,
+  DiscoverFilterErrors,
+  DiscoverMovieFilters,
+  TMDBDiscoverSortBy,
+  TMDBGenre,
+} from '@/services/tmdbService';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface DiscoverFilterFormProps {
+  genres: TMDBGenre[];
+  filters: DiscoverMovieFilters;
+  onApply: (filters: DiscoverMovieFilters) => void;
+}
+
+const SORT_OPTIONS: { value: TMDBDiscoverSortBy; label: string }[] = [
+  { value: 'popularity.desc', label: 'Most popular' },
+  { value: 'vote_average.desc', label: 'Highest rated' },
+  { value: 'primary_release_date.desc', label: 'Newest first' },
+  { value: 'primary_release_date.asc', label: 'Oldest first' },
+  { value: 'revenue.desc', label: 'Highest grossing' },
+  { value: 'original_title.asc', label: 'Title A-Z' },
+];
+
+// Original languages offered in the filter, as ISO 639-1 codes
+const LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'ta', label: 'Tamil' },
+  { value: 'te', label: 'Telugu' },
+  { value: 'ml', label: 'Malayalam' },
+  { value: 'kn', label: 'Kannada' },
+  { value: 'bn', label: 'Bengali' },
+  { value: 'ko', label: 'Korean' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'zh', label: 'Chinese' },
+  { value: 'fr', label: 'French' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'de', label: 'German' },
+  { value: 'it', label: 'Italian' },
+];
+
+// Select items can't have an empty value, so "no language filter" gets its own
+const ANY_LANGUAGE = 'any';
+
+// Read an optional number input, treating blank or invalid input as unset
+const parseOptionalNumber = (value: string): number | undefined => {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+// Both ends of a range are checked against each other, so editing either clears errors on both
+const RANGE_FIELDS: (keyof DiscoverMovieFilters)[][] = [
+  ['yearFrom', 'yearTo'],
+  ['minRuntime', 'maxRuntime'],
+];
+
+// Error shown under a field, or nothing when the field is fine
+const FieldError: React.FC<{ id: string; message?: string }> = ({ id, message }) =>
+  message ? <p id={id} className="text-sm font-medium text-destructive">{message}</p> : null;
+
+const DiscoverFilterForm: React.FC<DiscoverFilterFormProps> = ({ genres, filters, onApply }) => {
+  // Edits stay local until applied, so the results don't reload on every keystroke
+  const [draft, setDraft] = useState<DiscoverMovieFilters>(filters);
+  const [errors, setErrors] = useState<DiscoverFilterErrors>({});
+
+  useEffect(() => {
+    setDraft(filters);
+    setErrors({});
+  }, [filters]);
+
+  const update = (changes: Partial<DiscoverMovieFilters>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setErrors((current) => {
+      const next = { ...current };
+      (Object.keys(changes) as (keyof DiscoverMovieFilters)[]).forEach((key) => {
+        (RANGE_FIELDS.find((range) => range.includes(key)) ?? [key]).forEach((field) => delete next[field]);
+      });
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = getDiscoverFilterErrors(draft);
+    setErrors(validation);
+    if (Object.keys(validation).length === 0) {
+      onApply(draft);
+    }
+  };
+
+  const handleReset = () => {
+    setErrors({});
+    onApply({});
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-2">
+        <Label>Sort by</Label>
+        <Select
+          value={draft.sortBy ?? 'popularity.desc'}
+          onValueChange={(value) => update({ sortBy: value as TMDBDiscoverSortBy })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Genres</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start"
+          value={(draft.genreIds ?? []).map(String)}
+          onValueChange={(values) => update({ genreIds: values.map(Number) })}
+        >
+          {genres.map((genre) => (
+            <ToggleGroupItem key={genre.id} value={String(genre.id)}>
+              {genre.name}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Release year</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            placeholder="From"
+            aria-label="Release year from"
+            aria-invalid={Boolean(errors.yearFrom)}
+            aria-describedby={errors.yearFrom ? 'discover-year-from-error' : undefined}
+            value={draft.yearFrom ?? ''}
+            onChange={(e) => update({ yearFrom: parseOptionalNumber(e.target.value) })}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            inputMode="numeric"
+            placeholder="To"
+            aria-label="Release year to"
+            aria-invalid={Boolean(errors.yearTo)}
+            aria-describedby={errors.yearTo ? 'discover-year-to-error' : undefined}
+            value={draft.yearTo ?? ''}
+            onChange={(e) => update({ yearTo: parseOptionalNumber(e.target.value) })}
+          />
+        </div>
+        <FieldError id="discover-year-from-error" message={errors.yearFrom} />
+        <FieldError id="discover-year-to-error" message={errors.yearTo} />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Original language</Label>
+        <Select
+          value={draft.originalLanguage ?? ANY_LANGUAGE}
+          onValueChange={(value) => update({ originalLanguage: value === ANY_LANGUAGE ? undefined : value })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_LANGUAGE}>Any language</SelectItem>
+            {LANGUAGE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Minimum rating: {draft.minVoteAverage ?? 0}/10</Label>
+        <Slider
+          min={0}
+          max={10}
+          step={0.5}
+          value={[draft.minVoteAverage ?? 0]}
+          onValueChange={([value]) => update({ minVoteAverage: value > 0 ? value : undefined })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="discover-min-votes">Minimum votes</Label>
+        <Input
+          id="discover-min-votes"
+          type="number"
+          inputMode="numeric"
+          placeholder="e.g. 100"
+          value={draft.minVoteCount ?? ''}
+          onChange={(e) => update({ minVoteCount: parseOptionalNumber(e.target.value) })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Runtime (minutes)</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            placeholder="Min"
+            value={draft.minRuntime ?? ''}
+            onChange={(e) => update({ minRuntime: parseOptionalNumber(e.target.value) })}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            inputMode="numeric"
+            placeholder="Max"
+            aria-label="Maximum runtime"
+            aria-invalid={Boolean(errors.maxRuntime)}
+            aria-describedby={errors.maxRuntime ? 'discover-max-runtime-error' : undefined}
+            value={draft.maxRuntime ?? ''}
+            onChange={(e) => update({ maxRuntime: parseOptionalNumber(e.target.value) })}
+          />
+        </div>
+        <FieldError id="discover-max-runtime-error" message={errors.maxRuntime} />
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" className="flex-1">Apply filters</Button>
+        <Button type="button" variant="outline" onClick={handleReset}>Reset</Button>
+      </div>
+    </form>
+  );
+};
+
+export default DiscoverFilterForm;
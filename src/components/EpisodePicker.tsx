@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { formatEpisodeCode, TMDBEpisode, TMDBTvDetails } from '@/services/tmdbService';
+import { getTmdbErrorMessage } from '@/services/tmdbRequest';
+import { useTvSeason } from '@/hooks/useTmdbQueries';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface EpisodePickerProps {
+  show: TMDBTvDetails;
+  activeSeason?: number;
+  activeEpisode?: number;
+  onEpisodeSelect: (episode: TMDBEpisode) => void;
+}
+
+const EpisodePicker: React.FC<EpisodePickerProps> = ({
+  show,
+  activeSeason,
+  activeEpisode,
+  onEpisodeSelect,
+}) => {
+  // Specials (season 0) are listed last rather than opening by default
+  const seasons = [...show.seasons].sort((a, b) =>
+    (a.season_number === 0 ? Infinity : a.season_number) - (b.season_number === 0 ? Infinity : b.season_number)
+  );
+  const [seasonNumber, setSeasonNumber] = useState<number | null>(
+    activeSeason ?? seasons[0]?.season_number ?? null
+  );
+  const { data: season, isLoading, error } = useTvSeason(show.id, seasonNumber);
+  const episodes = season?.episodes ?? [];
+
+  useEffect(() => {
+    if (error) {
+      toast.error("Failed to load episodes", {
+        description: getTmdbErrorMessage(error)
+      });
+    }
+  }, [error]);
+
+  if (seasons.length === 0) {
+    return (
+      <p className="text-xs sm:text-sm text-muted-foreground">No seasons available for {show.name}</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs sm:text-sm font-medium truncate">Episodes of {show.name}</h3>
+        <Select
+          value={seasonNumber !== null ? String(seasonNumber) : undefined}
+          onValueChange={(value) => setSeasonNumber(Number(value))}
+        >
+          <SelectTrigger className="h-9 w-[140px]" aria-label="Season">
+            <SelectValue placeholder="Season" />
+          </SelectTrigger>
+          <SelectContent>
+            {seasons.map((season) => (
+              <SelectItem key={season.id} value={String(season.season_number)}>
+                {season.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Loading episodes...</span>
+        </div>
+      ) : (
+        <div className="border rounded-md shadow-sm max-h-40 sm:max-h-60 overflow-y-auto">
+          <ul className="py-1 divide-y divide-gray-100">
+            {episodes.map((episode) => {
+              const isActive = episode.season_number === activeSeason && episode.episode_number === activeEpisode;
+              return (
+                <li
+                  key={episode.id}
+                  className={`px-2 sm:px-3 py-2 hover:bg-gray-100 cursor-pointer transition-colors ${isActive ? 'bg-muted' : ''}`}
+                  onClick={() => onEpisodeSelect(episode)}
+                >
+                  <p className="text-xs sm:text-sm font-medium truncate">
+                    {formatEpisodeCode(episode.season_number, episode.episode_number)} · {episode.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {episode.air_date || 'Air date unknown'}
+                    {episode.runtime ? ` · ${episode.runtime} min` : ''}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EpisodePicker;
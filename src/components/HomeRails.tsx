@@ -0,0 +1,87 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import MediaRail from './MediaRail';
+import { formatEpisodeCode, TMDBMovieListType, TMDBMultiResult } from '@/services/tmdbService';
+import { PlayerHandoffState } from '@/lib/routes';
+import { useMovieList, useTrending } from '@/hooks/useTmdbQueries';
+import { useWatchHistory } from '@/hooks/useWatchHistory';
+import { useLocalePreference } from '@/hooks/useLocalePreference';
+import { getRegionLabel } from '@/services/localePreference';
+
+// TMDB's curated movie lists, in the order their rails appear
+const MOVIE_LIST_RAILS: { list: TMDBMovieListType; title: string }[] = [
+  { list: 'popular', title: 'Popular' },
+  { list: 'top_rated', title: 'Top Rated' },
+  { list: 'now_playing', title: 'Now Playing' },
+  { list: 'upcoming', title: 'Upcoming' },
+];
+
+interface MovieListRailProps {
+  list: TMDBMovieListType;
+  title: string;
+  onSelect: (result: TMDBMultiResult) => void;
+}
+
+const MovieListRail: React.FC<MovieListRailProps> = ({ list, title, onSelect }) => {
+  const { data, isLoading, error } = useMovieList(list);
+  return (
+    <MediaRail title={title} results={data?.results ?? []} isLoading={isLoading} error={error} onSelect={onSelect} />
+  );
+};
+
+/**
+ * The home page rails: what the user was watching, then trending and TMDB's curated movie lists
+ * Choosing a title hands it to the player above, which only then starts loading it
+ */
+const HomeRails: React.FC = () => {
+  const navigate = useNavigate();
+  const history = useWatchHistory();
+  const [{ region }] = useLocalePreference();
+  const trending = useTrending({ mediaType: 'all', region });
+
+  // Pass the choice to the player on this page, the same way other pages hand titles over
+  const handOff = (state: PlayerHandoffState) => {
+    navigate('/', { replace: true, state });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSelect = (result: TMDBMultiResult) => handOff({ select: result });
+
+  // Say whose trending list this is, including when the region had too little to show
+  const trendingNote = trending.data && (trending.data.isRegionFallback
+    ? `Worldwide · not enough from ${getRegionLabel(region)}`
+    : `In ${getRegionLabel(region)}`);
+
+  // A series carries on from the episode watched last
+  const handleContinue = (_result: TMDBMultiResult, index: number) => {
+    const { title, episode } = history[index];
+    handOff({ select: title, episode: episode && { season: episode.season, episode: episode.episode } });
+  };
+
+  return (
+    <div className="space-y-6 sm:space-y-8 max-w-5xl mx-auto px-2 sm:px-4">
+      <MediaRail
+        title="Continue Watching"
+        results={history.map((entry) => entry.title)}
+        onSelect={handleContinue}
+        getSubtitle={(_result, index) => {
+          const { episode } = history[index];
+          return episode ? `${formatEpisodeCode(episode.season, episode.episode)} · ${episode.name}` : 'Movie';
+        }}
+      />
+      <MediaRail
+        title="Trending"
+        results={trending.data?.results ?? []}
+        isLoading={trending.isLoading}
+        error={trending.error}
+        note={trendingNote}
+        onSelect={handleSelect}
+      />
+      {MOVIE_LIST_RAILS.map(({ list, title }) => (
+        <MovieListRail key={list} list={list} title={title} onSelect={handleSelect} />
+      ))}
+    </div>
+  );
+};
+
+export default HomeRails;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { LANGUAGE_OPTIONS, REGION_OPTIONS } from '@/services/localePreference';
+import { useLocalePreference } from '@/hooks/useLocalePreference';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Globe } from "lucide-react";
+
+/**
+ * Pickers for the language titles and overviews are shown in and the region
+ * used for release dates, certifications and regional lists
+ */
+const LocaleSelector: React.FC = () => {
+  const [{ language, region }, setPreference] = useLocalePreference();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <Globe className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+      <Select value={language} onValueChange={(value) => setPreference({ language: value })}>
+        <SelectTrigger className="h-9 w-[180px]" aria-label="Language">
+          <SelectValue placeholder="Language" />
+        </SelectTrigger>
+        <SelectContent>
+          {LANGUAGE_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={region} onValueChange={(value) => setPreference({ region: value })}>
+        <SelectTrigger className="h-9 w-[180px]" aria-label="Region">
+          <SelectValue placeholder="Region" />
+        </SelectTrigger>
+        <SelectContent>
+          {REGION_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default LocaleSelector;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { getResultImagePath, getResultYear, TMDBMultiResult } from '@/services/tmdbService';
+import { getTmdbErrorMessage } from '@/services/tmdbRequest';
+import TmdbImage from './TmdbImage';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Film, Tv, User } from "lucide-react";
+
+interface MediaRailProps {
+  title: string;
+  results: TMDBMultiResult[];
+  onSelect: (result: TMDBMultiResult, index: number) => void;
+  isLoading?: boolean;
+  error?: unknown;
+  /** Line under each title (default: the year) */
+  getSubtitle?: (result: TMDBMultiResult, index: number) => string;
+  /** Small print next to the heading, e.g. the region a list covers */
+  note?: string;
+}
+
+const PLACEHOLDER_ICONS = {
+  movie: Film,
+  tv: Tv,
+  person: User,
+};
+
+// Placeholder posters shown while the list loads
+const SKELETON_COUNT = 6;
+
+// Default line under a title: its year, or what a person is known for
+const describeResult = (result: TMDBMultiResult): string =>
+  result.media_type === 'person' ? result.known_for_department : String(getResultYear(result) ?? 'Unknown year');
+
+/**
+ * A horizontally scrolling row of posters, one per title
+ */
+const MediaRail: React.FC<MediaRailProps> = ({
+  title,
+  results,
+  onSelect,
+  isLoading = false,
+  error,
+  getSubtitle = describeResult,
+  note,
+}) => {
+  // Rails with nothing to offer, such as an empty watch history, stay out of the way
+  if (!isLoading && !error && results.length === 0) return null;
+
+  return (
+    <section className="space-y-2">
+      <div className="flex items-baseline gap-2">
+        <h2 className="text-lg sm:text-xl font-semibold">{title}</h2>
+        {note && <span className="text-xs text-muted-foreground">{note}</span>}
+      </div>
+
+      {isLoading ? (
+        <div className="flex gap-3 sm:gap-4 overflow-hidden">
+          {Array.from({ length: SKELETON_COUNT }, (_, index) => (
+            <Skeleton key={index} className="aspect-[2/3] w-1/3 sm:w-1/6 shrink-0 rounded-md" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          {getTmdbErrorMessage(error) ?? "This list couldn't be loaded."}
+        </p>
+      ) : (
+        <Carousel opts={{ align: 'start', dragFree: true }}>
+          <CarouselContent>
+            {results.map((result, index) => {
+              const name = result.media_type === 'movie' ? result.title : result.name;
+              const imagePath = getResultImagePath(result);
+              const Icon = PLACEHOLDER_ICONS[result.media_type];
+              return (
+                <CarouselItem key={`${result.media_type}-${result.id}`} className="basis-1/3 sm:basis-1/6">
+                  <button type="button" className="group w-full text-left" onClick={() => onSelect(result, index)}>
+                    {imagePath ? (
+                      <TmdbImage
+                        kind={result.media_type === 'person' ? 'profile' : 'poster'}
+                        path={imagePath}
+                        fallbackSize="w342"
+                        sizes="(min-width: 1024px) 160px, (min-width: 640px) 16vw, 30vw"
+                        alt={name}
+                        className="aspect-[2/3] w-full object-cover rounded-md shadow-sm transition-transform group-hover:scale-105"
+                      />
+                    ) : (
+                      <div className="aspect-[2/3] w-full bg-gray-200 rounded-md flex items-center justify-center">
+                        <Icon className="h-6 w-6 text-gray-400" />
+                      </div>
+                    )}
+                    <p className="mt-1 text-xs sm:text-sm font-medium truncate">{name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{getSubtitle(result, index)}</p>
+                  </button>
+                </CarouselItem>
+              );
+            })}
+          </CarouselContent>
+          <CarouselPrevious className="hidden sm:flex" />
+          <CarouselNext className="hidden sm:flex" />
+        </Carousel>
+      )}
+    </section>
+  );
+};
+
+export default MediaRail;
@@ -0,0 +1,148 @@
+import React, { useEffect, useImperativeHandle, useRef } from 'react';
+import type { NativeVideoSourceType } from '@/services/videoService';
+
+/**
+ * Playback state carried over when the source is swapped in place
+ */
+interface PlaybackSnapshot {
+  currentTime: number;
+  paused: boolean;
+  volume: number;
+  muted: boolean;
+  playbackRate: number;
+}
+
+interface NativeVideoProps {
+  src: string;
+  type: NativeVideoSourceType;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  className?: string;
+  style?: React.CSSProperties;
+  onError?: (message: string) => void;
+  onLoadedData?: () => void;
+}
+
+/**
+ * HTML5 <video> element for direct sources
+ * HLS playlists play natively where the browser supports them (Safari, iOS, most TVs)
+ * and through hls.js everywhere else. DASH manifests only play where the browser
+ * supports them natively.
+ * Changing `src` swaps the source on the same element and resumes from the
+ * previous position, play/pause state and volume, so refreshes are seamless.
+ */
+const NativeVideo = React.forwardRef<HTMLVideoElement, NativeVideoProps>(({
+  src,
+  type,
+  mimeType,
+  width,
+  height,
+  className,
+  style,
+  onError,
+  onLoadedData,
+}, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const snapshotRef = useRef<PlaybackSnapshot | null>(null);
+
+  useImperativeHandle(ref, () => videoRef.current as HTMLVideoElement);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (type === 'dash' && !video.canPlayType(mimeType)) {
+      onErrorRef.current?.("DASH playback is not supported in this browser");
+      return;
+    }
+
+    let cancelled = false;
+    let destroyHls: (() => void) | null = null;
+
+    // Restore the state of the previous source once the new one knows its duration
+    const snapshot = snapshotRef.current;
+    snapshotRef.current = null;
+    const restoreSnapshot = () => {
+      if (!snapshot) return;
+      video.currentTime = snapshot.currentTime;
+      video.volume = snapshot.volume;
+      video.muted = snapshot.muted;
+      video.playbackRate = snapshot.playbackRate;
+      if (!snapshot.paused) {
+        video.play().catch((error) => console.warn("Could not resume playback:", error));
+      }
+    };
+    video.addEventListener('loadedmetadata', restoreSnapshot, { once: true });
+
+    if (type === 'hls' && !video.canPlayType(mimeType)) {
+      // Only pull in hls.js when the browser can't play the playlist itself
+      import('hls.js').then(({ default: Hls }) => {
+        if (cancelled) return;
+        if (!Hls.isSupported()) {
+          onErrorRef.current?.("HLS playback is not supported in this browser");
+          return;
+        }
+
+        const hls = new Hls();
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          if (data.fatal) {
+            onErrorRef.current?.(`Stream error: ${data.details}`);
+          }
+        });
+        hls.loadSource(src);
+        hls.attachMedia(video);
+        destroyHls = () => hls.destroy();
+      }).catch((error) => {
+        console.error("Failed to load HLS support:", error);
+        onErrorRef.current?.("Failed to load HLS support");
+      });
+    } else {
+      video.src = src;
+    }
+
+    return () => {
+      cancelled = true;
+      video.removeEventListener('loadedmetadata', restoreSnapshot);
+      // Only a source that actually started is worth resuming; otherwise keep any pending snapshot
+      snapshotRef.current = video.readyState > 0 ? {
+        currentTime: video.currentTime,
+        paused: video.paused,
+        volume: video.volume,
+        muted: video.muted,
+        playbackRate: video.playbackRate,
+      } : snapshot;
+      destroyHls?.();
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, [src, type, mimeType]);
+
+  const handleVideoError = () => {
+    // hls.js reports its own errors; this covers native playback
+    const mediaError = videoRef.current?.error;
+    if (mediaError) {
+      onErrorRef.current?.(mediaError.message || `Media error ${mediaError.code}`);
+    }
+  };
+
+  return (
+    <video
+      ref={videoRef}
+      width={width}
+      height={height}
+      controls
+      playsInline
+      className={className}
+      style={style}
+      onError={handleVideoError}
+      onLoadedData={onLoadedData}
+    />
+  );
+});
+
+NativeVideo.displayName = 'NativeVideo';
+
+export default NativeVideo;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface PageLinksProps {
+  page: number;
+  totalPages: number;
+  /** Path of a given page, used for the links and for navigation */
+  getPagePath: (page: number) => string;
+}
+
+// Page numbers to link to around the current page, with null marking a gap
+const getPageItems = (current: number, total: number): (number | null)[] => {
+  const pages = [...new Set([1, current - 1, current, current + 1, total])]
+    .filter((page) => page >= 1 && page <= total)
+    .sort((a, b) => a - b);
+  return pages.flatMap((page, index) =>
+    index > 0 && page - pages[index - 1] > 1 ? [null, page] : [page]
+  );
+};
+
+const PageLinks: React.FC<PageLinksProps> = ({ page, totalPages, getPagePath }) => {
+  const navigate = useNavigate();
+
+  if (totalPages <= 1) return null;
+
+  // Real hrefs keep middle-click and copy-link working; plain clicks navigate client-side
+  const goToPage = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    navigate(getPagePath(target));
+    window.scrollTo({ top: 0 });
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        {page > 1 && (
+          <PaginationItem>
+            <PaginationPrevious href={getPagePath(page - 1)} onClick={goToPage(page - 1)} />
+          </PaginationItem>
+        )}
+        {getPageItems(page, totalPages).map((item, index) => (
+          <PaginationItem key={item ?? `gap-${index}`}>
+            {item === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href={getPagePath(item)} isActive={item === page} onClick={goToPage(item)}>
+                {item}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        {page < totalPages && (
+          <PaginationItem>
+            <PaginationNext href={getPagePath(page + 1)} onClick={goToPage(page + 1)} />
+          </PaginationItem>
+        )}
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default PageLinks;
@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { TMDBMultiResult, TMDBPersonResult } from '@/services/tmdbService';
+import { getTmdbErrorMessage } from '@/services/tmdbRequest';
+import { usePersonCredits } from '@/hooks/useTmdbQueries';
+import SearchResultsList from './SearchResultsList';
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Loader2, X } from "lucide-react";
+
+interface PersonFilmographyProps {
+  person: TMDBPersonResult;
+  onSelect: (credit: TMDBMultiResult) => void;
+  onClose: () => void;
+}
+
+const PersonFilmography: React.FC<PersonFilmographyProps> = ({ person, onSelect, onClose }) => {
+  const { data: credits = [], isLoading, error } = usePersonCredits(person.id);
+
+  useEffect(() => {
+    if (error) {
+      toast.error(`Failed to load filmography for ${person.name}`, {
+        description: getTmdbErrorMessage(error)
+      });
+    }
+  }, [error, person.name]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs sm:text-sm font-medium truncate">Filmography of {person.name}</h3>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} aria-label="Close filmography">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Loading filmography...</span>
+        </div>
+      ) : credits.length > 0 ? (
+        <SearchResultsList results={credits} onSelect={onSelect} showWatchProviders={false} />
+      ) : (
+        <p className="text-xs sm:text-sm text-muted-foreground">No movies or TV shows found for {person.name}</p>
+      )}
+    </div>
+  );
+};
+
+export default PersonFilmography;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { getResultImagePath, getResultYear, TMDBMultiResult } from '@/services/tmdbService';
+import TmdbImage from './TmdbImage';
+import WatchProviderBadges from './WatchProviderBadges';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { cn } from '@/lib/utils';
+import { Film, Tv, User } from "lucide-react";
+
+interface SearchResultsListProps {
+  results: TMDBMultiResult[];
+  onSelect: (result: TMDBMultiResult) => void;
+  /** Cap the list's height and scroll inside it, as a dropdown does (default true) */
+  scrollable?: boolean;
+  /** Show where each title can be watched (default true); off for lists that can run to hundreds */
+  showWatchProviders?: boolean;
+}
+
+const GROUPS: { type: TMDBMultiResult['media_type']; label: string }[] = [
+  { type: 'movie', label: 'Movies' },
+  { type: 'tv', label: 'TV Shows' },
+  { type: 'person', label: 'People' },
+];
+
+const PLACEHOLDER_ICONS = {
+  movie: Film,
+  tv: Tv,
+  person: User,
+};
+
+// Second line under a result's name: its year, or what a person is known for
+const describeResult = (result: TMDBMultiResult): string => {
+  if (result.media_type === 'person') {
+    const knownFor = result.known_for
+      ?.map((title) => (title.media_type === 'movie' ? title.title : title.name))
+      .slice(0, 2)
+      .join(', ');
+    return [result.known_for_department, knownFor].filter(Boolean).join(' · ') || 'Person';
+  }
+  const year = getResultYear(result) ?? 'Unknown year';
+  return result.media_type === 'tv' ? `TV series · ${year}` : String(year);
+};
+
+const SearchResultsList: React.FC<SearchResultsListProps> = ({
+  results,
+  onSelect,
+  scrollable = true,
+  showWatchProviders = true,
+}) => {
+  const isMobile = useIsMobile();
+
+  // Group headings only help when the results mix types
+  const groups = GROUPS
+    .map((group) => ({ ...group, results: results.filter((result) => result.media_type === group.type) }))
+    .filter((group) => group.results.length > 0);
+  const showHeadings = groups.length > 1;
+
+  return (
+    <div className={cn("border rounded-md shadow-sm", scrollable && "max-h-40 sm:max-h-60 overflow-y-auto")}>
+      {groups.map((group) => (
+        <div key={group.type}>
+          {showHeadings && (
+            <h4 className="sticky top-0 z-10 px-2 sm:px-3 py-1 text-xs font-semibold text-muted-foreground bg-muted">
+              {group.label}
+            </h4>
+          )}
+          <ul className="py-1 divide-y divide-gray-100">
+            {group.results.map((result) => {
+              const name = result.media_type === 'movie' ? result.title : result.name;
+              const imagePath = getResultImagePath(result);
+              const PlaceholderIcon = PLACEHOLDER_ICONS[result.media_type];
+              return (
+                <li
+                  key={`${result.media_type}-${result.id}`}
+                  className="px-2 sm:px-3 py-2 hover:bg-gray-100 cursor-pointer transition-colors flex items-center gap-2 sm:gap-3"
+                  onClick={() => onSelect(result)}
+                >
+                  {imagePath ? (
+                    <TmdbImage
+                      kind={result.media_type === 'person' ? 'profile' : 'poster'}
+                      path={imagePath}
+                      fallbackSize="w92"
+                      sizes="48px"
+                      alt={name}
+                      className="h-12 w-9 sm:h-16 sm:w-12 object-cover rounded"
+                    />
+                  ) : (
+                    <div className="h-12 w-9 sm:h-16 sm:w-12 bg-gray-200 rounded flex items-center justify-center">
+                      <PlaceholderIcon className="h-4 w-4 sm:h-6 sm:w-6 text-gray-400" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs sm:text-sm font-medium truncate">{name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{describeResult(result)}</p>
+                    {showWatchProviders && result.media_type !== 'person' && (
+                      <WatchProviderBadges tmdbId={result.id} mediaType={result.media_type} />
+                    )}
+                    {!isMobile && result.media_type !== 'person' && (
+                      <p className="text-xs text-muted-foreground line-clamp-1">
+                        {result.overview || 'No overview available'}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SearchResultsList;
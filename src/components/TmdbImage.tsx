@@ -0,0 +1,38 @@
+import React from 'react';
+import { getImageSrcSet, getImageUrl, TMDBImageKind } from '@/services/tmdbService';
+import { useImageConfiguration } from '@/hooks/useImageConfiguration';
+
+interface TmdbImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  kind: TMDBImageKind;
+  path: string | null;
+  /** Size used as the plain src, for browsers without srcset support */
+  fallbackSize: string;
+}
+
+/**
+ * A TMDB image offered in every width the configuration lists, so the browser picks
+ * the smallest one that stays sharp at the rendered size and pixel density
+ */
+const TmdbImage: React.FC<TmdbImageProps> = ({
+  kind,
+  path,
+  fallbackSize,
+  loading = 'lazy',
+  decoding = 'async',
+  ...props
+}) => {
+  // Re-render with the real base URL and sizes once they have loaded
+  useImageConfiguration();
+
+  return (
+    <img
+      src={getImageUrl(kind, path, fallbackSize)}
+      srcSet={getImageSrcSet(kind, path)}
+      loading={loading}
+      decoding={decoding}
+      {...props}
+    />
+  );
+};
+
+export default TmdbImage;
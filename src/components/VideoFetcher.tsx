@@ -1,117 +1,195 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import VideoPlayer from './VideoPlayer';
-import { parseVideoUrl, fetchNewVideoUrl, isVideoUrlExpired } from '@/services/videoService';
-import { searchMovies, TMDBMovieResult, getPosterUrl, getImdbId, getTrendingMovies } from '@/services/tmdbService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import VideoPlayer, { PlayerError, PlayerErrorReason } from './VideoPlayer';
+import EpisodePicker from './EpisodePicker';
+import WatchProviders from './WatchProviders';
+import PersonFilmography from './PersonFilmography';
+import SearchResultsList from './SearchResultsList';
+import { parseVideoUrl, fetchNewVideoUrl, RefreshedVideoUrl } from '@/services/videoService';
+import { RefreshSchedulerState } from '@/services/refreshScheduler';
+import { TMDBMovieResult, TMDBMultiResult, TMDBPersonResult, TMDBTvResult, TMDBTvDetails, TMDBEpisode, TMDBSearchType, SEARCH_TYPE_LABELS, formatEpisodeCode } from '@/services/tmdbService';
+import { getTmdbErrorMessage } from '@/services/tmdbRequest';
+import { movieQuery, tvDetailsQuery, tvSeasonQuery, useMovieSearch } from '@/hooks/useTmdbQueries';
+import { recordWatch } from '@/services/watchHistory';
+import { canResumeEmbed, findSourceProviderForUrl, isEpisode, resolveSourceChain, ResolvedSource, SourceTemplateValues } from '@/services/sourceProviders';
+import { isProviderAvailable, recordProviderFailure, recordProviderSuccess } from '@/services/providerHealth';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { Search, Film, Loader2 } from "lucide-react";
+import { Search, Loader2, Clapperboard } from "lucide-react";
 import { useDebounce } from '@/hooks/useDebounce';
-import { useIsMobile } from '@/hooks/use-mobile';
+import { useRefreshScheduler } from '@/hooks/useRefreshScheduler';
+import { usePasteLink } from '@/hooks/usePasteLink';
+import { parseLink, resolveLink, ParsedLink } from '@/services/linkResolver';
+import { getMoviePath, getPlayerHandoff, getSearchPath, PlayerHandoffState } from '@/lib/routes';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 
 interface VideoFetcherProps {
   defaultVideoUrl?: string;
 }
 
+// Player failures that count against the provider and trigger failover
+const FAILOVER_REASONS: PlayerErrorReason[] = ['load-timeout', 'heartbeat-lost', 'embed-error', 'media-error'];
+
+// Describe what the refresh scheduler is doing, or null when there is nothing to say
+const describeRefreshState = (state: RefreshSchedulerState): string | null => {
+  const nextAt = state.nextRefreshAt?.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  switch (state.status) {
+    case 'scheduled':
+      return `Source refreshes at ${nextAt}`;
+    case 'refreshing':
+      return "Refreshing source...";
+    case 'paused':
+      return "Source refresh paused while the tab is hidden or offline";
+    case 'backoff':
+      return `Refresh failed ${state.failureCount} time${state.failureCount === 1 ? '' : 's'}, retrying at ${nextAt}`;
+    case 'failed':
+      return "Automatic source refresh stopped after repeated failures";
+    default:
+      return null;
+  }
+};
+
+// Nothing plays until the user picks a title, unless a source URL is passed in
 const VideoFetcher: React.FC<VideoFetcherProps> = ({ 
-  defaultVideoUrl = "https://jole340erun.com/play/tt27995594" 
+  defaultVideoUrl = ""
 }) => {
   const [videoUrl, setVideoUrl] = useState<string>(defaultVideoUrl);
+  const [videoExpiresAt, setVideoExpiresAt] = useState<Date | null>(null);
+  const [playbackSession, setPlaybackSession] = useState<number>(0);
+  const [sourceIds, setSourceIds] = useState<SourceTemplateValues | null>(
+    () => findSourceProviderForUrl(defaultVideoUrl)?.ids ?? null
+  );
+  const [activeProviderId, setActiveProviderId] = useState<string | null>(
+    () => findSourceProviderForUrl(defaultVideoUrl)?.provider.id ?? null
+  );
   const [movieId, setMovieId] = useState<string>("");
   const [searchQuery, setSearchQuery] = useState<string>("");
-  const [searchResults, setSearchResults] = useState<TMDBMovieResult[]>([]);
-  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [searchType, setSearchType] = useState<TMDBSearchType>('multi');
+  const [selectedShow, setSelectedShow] = useState<TMDBTvDetails | null>(null);
+  const [selectedPerson, setSelectedPerson] = useState<TMDBPersonResult | null>(null);
+  const [isLoadingShow, setIsLoadingShow] = useState<boolean>(false);
   const [isLoadingMovie, setIsLoadingMovie] = useState<boolean>(false);
   const [selectedMovieTitle, setSelectedMovieTitle] = useState<string>("");
   
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
-  const isMobile = useIsMobile();
-
-  // Load trending Indian movies on initial mount
-  useEffect(() => {
-    const loadTrendingIndianMovies = async () => {
-      try {
-        const trending = await getTrendingMovies('in'); // 'in' for India
-        if (trending && trending.length > 0) {
-          // Select a random movie from trending list
-          const randomIndex = Math.floor(Math.random() * Math.min(5, trending.length));
-          const randomMovie = trending[randomIndex];
-          handleMovieSelect(randomMovie);
-        }
-      } catch (error) {
-        console.error("Failed to load trending Indian movies:", error);
-      }
-    };
-    
-    loadTrendingIndianMovies();
-  }, []);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const handoff = getPlayerHandoff(location.state);
 
-  // Function to refresh the video URL
-  const refreshVideoUrl = useCallback(async (): Promise<string> => {
+  // Function to fetch a fresh URL for the one currently playing
+  // Failures are not toasted here: the player reports manual refreshes it asked for
+  const refreshVideoUrl = useCallback(async (currentUrl: string): Promise<RefreshedVideoUrl> => {
     try {
-      const sourceConfig = parseVideoUrl(videoUrl);
+      const sourceConfig = parseVideoUrl(currentUrl);
       if (!sourceConfig) {
         throw new Error("Failed to parse video URL");
       }
       
-      const newUrl = await fetchNewVideoUrl(sourceConfig);
-      setVideoUrl(newUrl);
-      return newUrl;
+      switch (sourceConfig.type) {
+        case 'youtube':
+          // YouTube embeds are not signed, so there is nothing to refresh
+          return { url: currentUrl, expiresAt: null };
+        case 'unknown':
+          throw new Error("Unrecognised video source, cannot refresh it");
+      }
+      
+      return await fetchNewVideoUrl(sourceConfig);
     } catch (error) {
       console.error("Error refreshing video URL:", error);
-      toast.error("Failed to refresh video URL");
       throw error;
     }
-  }, [videoUrl]);
+  }, []);
+
+  // One scheduler owns every refresh: timed ones before expiry and manual ones from the player
+  const { state: refreshState, refreshNow } = useRefreshScheduler(videoUrl, videoExpiresAt, {
+    refresh: refreshVideoUrl,
+    onRefreshed: (refreshed) => {
+      setVideoUrl(refreshed.url);
+      setVideoExpiresAt(refreshed.expiresAt);
+    },
+    // Only URLs that say when they expire are refreshed on a timer
+    fallbackInterval: 0,
+    // Refreshing reloads an embed, so only embeds that can resume where they were refresh on their own
+    canAutoRefresh: (url) => parseVideoUrl(url)?.type !== 'iframe-embed' || canResumeEmbed(url),
+    onGiveUp: (error) => {
+      toast.error("Stopped refreshing the video source automatically", { description: error.message });
+    },
+  });
+
+  const fetchNewUrlForPlayer = useCallback(async (): Promise<string> => {
+    const refreshed = await refreshNow();
+    return refreshed.url;
+  }, [refreshNow]);
+
+  // Search as the user types; results are only shown while the box holds a searchable query,
+  // so clearing it hides them at once instead of after the debounce
+  const search = useMovieSearch(debouncedSearchQuery, searchType);
+  const hasSearchQuery = searchQuery.length >= 2 && debouncedSearchQuery.length >= 2;
+  const searchResults = hasSearchQuery ? search.data?.results ?? [] : [];
+  const totalResults = hasSearchQuery ? search.data?.total_results ?? 0 : 0;
+  const isSearching = isLoadingShow || (hasSearchQuery && search.isFetching);
 
-  // Check if the current URL is expired
   useEffect(() => {
-    const checkExpiration = async () => {
-      try {
-        const expired = await isVideoUrlExpired(videoUrl);
-        if (expired) {
-          toast.warning("Video URL has expired, refreshing...", {
-            duration: 3000,
-          });
-          await refreshVideoUrl();
-        }
-      } catch (error) {
-        console.error("Error checking video URL expiration:", error);
-      }
-    };
-    
-    // Check when component mounts
-    checkExpiration();
+    if (search.error) {
+      toast.error(`Failed to search ${SEARCH_TYPE_LABELS[searchType]}`, {
+        description: getTmdbErrorMessage(search.error)
+      });
+    }
+  }, [search.error, searchType]);
+
+  // Every provider that can play the current title, in failover order
+  const sourceChain = useMemo(() => (sourceIds ? resolveSourceChain(sourceIds) : []), [sourceIds]);
+
+  // Start playing a resolved source as a fresh playback session
+  const playSource = (source: ResolvedSource) => {
+    setVideoUrl(source.url);
+    setVideoExpiresAt(null);
+    setActiveProviderId(source.provider.id);
+    setPlaybackSession((session) => session + 1);
+  };
+
+  // Resolve a title through the provider chain and play the first provider not cooling down
+  const playTitle = (ids: SourceTemplateValues): boolean => {
+    const chain = resolveSourceChain(ids);
+    const source = chain.find(({ provider }) => isProviderAvailable(provider.id)) ?? chain[0];
+    if (!source) return false;
+    setSourceIds(ids);
+    playSource(source);
+    return true;
+  };
+
+  // Fall through to the next available provider when the current one fails to load
+  const handlePlayerError = (error: PlayerError) => {
+    if (!activeProviderId || !FAILOVER_REASONS.includes(error.reason)) return;
     
-    // Set up regular checks (every 5 minutes)
-    const interval = setInterval(checkExpiration, 5 * 60 * 1000);
+    recordProviderFailure(activeProviderId);
+    const currentIndex = sourceChain.findIndex(({ provider }) => provider.id === activeProviderId);
+    const next = sourceChain.slice(currentIndex + 1).find(({ provider }) => isProviderAvailable(provider.id));
+    if (!next) return;
     
-    return () => clearInterval(interval);
-  }, [videoUrl, refreshVideoUrl]);
+    toast.info(`Switching to ${next.provider.name}`, {
+      description: `${sourceChain[currentIndex]?.provider.name ?? 'The current source'} failed: ${error.message}`
+    });
+    playSource(next);
+  };
 
-  // Handle search query changes
-  useEffect(() => {
-    const performSearch = async () => {
-      if (debouncedSearchQuery && debouncedSearchQuery.length >= 2) {
-        setIsSearching(true);
-        try {
-          const results = await searchMovies(debouncedSearchQuery);
-          setSearchResults(results);
-        } catch (error) {
-          console.error("Error searching movies:", error);
-          toast.error("Failed to search movies");
-        } finally {
-          setIsSearching(false);
-        }
-      } else {
-        setSearchResults([]);
-      }
-    };
+  const handlePlayerReady = () => {
+    if (activeProviderId) {
+      recordProviderSuccess(activeProviderId);
+    }
+  };
 
-    performSearch();
-  }, [debouncedSearchQuery]);
+  const handleSourceChange = (providerId: string) => {
+    const source = sourceChain.find(({ provider }) => provider.id === providerId);
+    if (source && providerId !== activeProviderId) {
+      playSource(source);
+    }
+  };
 
   // Handle movie selection from TMDB results
   const handleMovieSelect = async (movie: TMDBMovieResult) => {
@@ -119,8 +197,8 @@ const VideoFetcher: React.FC<VideoFetcherProps> = ({
     setSelectedMovieTitle(movie.title);
     
     try {
-      // Get IMDB ID for the selected movie
-      const imdbId = await getImdbId(movie.id);
+      // Get IMDB ID for the selected movie, unless the caller already knows it
+      const imdbId = movie.imdb_id || (await queryClient.fetchQuery(movieQuery(movie.id))).imdb_id;
       
       if (!imdbId) {
         toast.error(`Could not find IMDB ID for "${movie.title}"`);
@@ -128,68 +206,235 @@ const VideoFetcher: React.FC<VideoFetcherProps> = ({
         return;
       }
       
-      // Construct the URL with the IMDB ID
-      const newUrl = `https://jole340erun.com/play/${imdbId}`;
-      setVideoUrl(newUrl);
+      // Resolve the title through the source provider chain
+      if (!playTitle({ imdbId, tmdbId: movie.id })) {
+        toast.error(`No video source can play "${movie.title}"`);
+        return;
+      }
       setMovieId(imdbId);
+      recordWatch({
+        title: {
+          id: movie.id,
+          title: movie.title,
+          poster_path: movie.poster_path,
+          release_date: movie.release_date,
+          release_year: movie.release_year,
+          overview: movie.overview,
+          imdb_id: imdbId,
+          media_type: 'movie',
+        },
+      });
+      setSelectedShow(null);
+      setSelectedPerson(null);
       setSearchQuery("");
-      setSearchResults([]);
       
       toast.success(`Loading: ${movie.title}`, {
         description: `Release date: ${movie.release_date || 'Unknown'}`
       });
     } catch (error) {
       console.error("Error loading movie:", error);
-      toast.error(`Failed to load "${movie.title}"`);
+      toast.error(`Failed to load "${movie.title}"`, {
+        description: getTmdbErrorMessage(error)
+      });
     } finally {
       setIsLoadingMovie(false);
     }
   };
 
-  // Handle movie ID submission
-  const handleMovieIdSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  // Handle TV series selection from TMDB results: load its seasons for the episode picker
+  const handleShowSelect = async (show: TMDBTvResult) => {
+    setIsLoadingShow(true);
+    try {
+      const details = await queryClient.fetchQuery(tvDetailsQuery(show.id));
+      setSelectedShow(details);
+      setSelectedPerson(null);
+      setSearchQuery("");
+    } catch (error) {
+      console.error("Error loading TV show:", error);
+      toast.error(`Failed to load "${show.name}"`, {
+        description: getTmdbErrorMessage(error)
+      });
+    } finally {
+      setIsLoadingShow(false);
+    }
+  };
+
+  // Handle person selection from TMDB results: show their filmography
+  const handlePersonSelect = (person: TMDBPersonResult) => {
+    setSelectedPerson(person);
+    setSelectedShow(null);
+    setSearchQuery("");
+  };
+
+  // Route a search or filmography result: play movies, open series, open a person's filmography
+  const handleResultSelect = (result: TMDBMultiResult) => {
+    switch (result.media_type) {
+      case 'movie':
+        handleMovieSelect(result);
+        break;
+      case 'tv':
+        handleShowSelect(result);
+        break;
+      case 'person':
+        handlePersonSelect(result);
+        break;
+    }
+  };
+
+  // Route a title handed over by another page or a home page rail, then clear it so a reload doesn't replay it
+  const handleHandoff = (state: PlayerHandoffState) => {
+    if (state.episode && state.select.media_type === 'tv') {
+      resumeEpisode(state.select, state.episode.season, state.episode.episode);
+    } else {
+      handleResultSelect(state.select);
+    }
+  };
+  const handleHandoffRef = useRef(handleHandoff);
+  handleHandoffRef.current = handleHandoff;
+  useEffect(() => {
+    if (!handoff) return;
+    handleHandoffRef.current(handoff);
+    navigate(location.pathname, { replace: true, state: null });
+  }, [handoff, navigate, location.pathname]);
+
+  // Play one episode of a series through the provider chain
+  const playEpisode = (show: TMDBTvDetails, episode: TMDBEpisode) => {
+    const code = formatEpisodeCode(episode.season_number, episode.episode_number);
+    const ids: SourceTemplateValues = {
+      imdbId: show.external_ids?.imdb_id ?? undefined,
+      tmdbId: show.id,
+      season: episode.season_number,
+      episode: episode.episode_number,
+    };
+    if (!playTitle(ids)) {
+      toast.error(`No video source can play "${show.name}" ${code}`);
+      return;
+    }
+    setSelectedMovieTitle(`${show.name} · ${code} ${episode.name}`);
+    recordWatch({
+      title: {
+        id: show.id,
+        name: show.name,
+        poster_path: show.poster_path,
+        first_air_date: show.first_air_date,
+        first_air_year: show.first_air_year,
+        overview: show.overview,
+        media_type: 'tv',
+      },
+      episode: { season: episode.season_number, episode: episode.episode_number, name: episode.name },
+    });
+    toast.success(`Loading: ${show.name} ${code}`, {
+      description: episode.name
+    });
+  };
+
+  // Open a series at one of its episodes and play it, e.g. to carry on from the watch history
+  const resumeEpisode = async (show: TMDBTvResult, seasonNumber: number, episodeNumber: number) => {
+    setIsLoadingMovie(true);
     try {
-      if (!movieId.trim()) {
-        toast.error("Please enter a movie ID");
+      const [details, season] = await Promise.all([
+        queryClient.fetchQuery(tvDetailsQuery(show.id)),
+        queryClient.fetchQuery(tvSeasonQuery(show.id, seasonNumber)),
+      ]);
+      setSelectedShow(details);
+      setSelectedPerson(null);
+      const episode = season.episodes.find((candidate) => candidate.episode_number === episodeNumber);
+      if (!episode) {
+        toast.error(`${show.name} ${formatEpisodeCode(seasonNumber, episodeNumber)} is no longer listed`, {
+          description: "Pick an episode to play"
+        });
         return;
       }
-      
-      // Format movieId to ensure it has the correct format (tt followed by numbers)
-      let formattedId = movieId;
-      if (!formattedId.startsWith('tt') && !isNaN(Number(formattedId))) {
-        formattedId = `tt${formattedId}`;
-      }
-      
-      // Construct the URL with the movie ID
-      const newUrl = `https://jole340erun.com/play/${formattedId}`;
-      setVideoUrl(newUrl);
-      setSelectedMovieTitle("Movie Video Player"); // Reset title if entering direct ID
-      toast.success(`Loaded movie ID: ${formattedId}`);
+      playEpisode(details, episode);
     } catch (error) {
-      console.error("Error updating movie ID:", error);
-      toast.error("Failed to update movie ID");
+      console.error("Error resuming episode:", error);
+      toast.error(`Failed to load "${show.name}"`, {
+        description: getTmdbErrorMessage(error)
+      });
+    } finally {
+      setIsLoadingMovie(false);
     }
   };
 
-  // Extract movie ID from the current URL
-  const extractMovieIdFromUrl = (url: string): string => {
+  // Handle episode selection from the episode picker
+  const handleEpisodeSelect = (episode: TMDBEpisode) => {
+    if (selectedShow) {
+      playEpisode(selectedShow, episode);
+    }
+  };
+
+  // Play whatever a link or ID refers to: a movie, a series' episode list, or a single episode
+  const loadLink = async (text: string, link: ParsedLink) => {
+    setIsLoadingMovie(true);
     try {
-      const parsedUrl = new URL(url);
-      const pathParts = parsedUrl.pathname.split('/');
-      const lastPart = pathParts[pathParts.length - 1];
-      
-      // If it contains a tt ID pattern, return it
-      if (lastPart.startsWith('tt')) {
-        return lastPart;
+      const match = await resolveLink(link);
+      switch (match?.media_type) {
+        case 'movie':
+          await handleMovieSelect(match.movie);
+          break;
+        case 'tv':
+          await handleShowSelect(match.show);
+          toast.info(`"${match.show.name}" is a TV series`, { description: "Pick an episode to play" });
+          break;
+        case 'episode': {
+          const show = await queryClient.fetchQuery(tvDetailsQuery(match.episode.show_id));
+          setSelectedShow(show);
+          setSelectedPerson(null);
+          playEpisode(show, match.episode);
+          break;
+        }
+        default:
+          toast.error(`No title found for ${text}`, {
+            description: "Check the link or ID and try again"
+          });
       }
-      return "";
-    } catch {
-      return "";
+    } catch (error) {
+      console.error("Error resolving link:", error);
+      toast.error(`Could not resolve ${text}`, {
+        description: getTmdbErrorMessage(error) ?? "The title may not exist on TMDB"
+      });
+    } finally {
+      setIsLoadingMovie(false);
+    }
+  };
+
+  // Handle movie ID submission: accepts IDs as well as IMDb, TMDB, Letterboxd and Wikidata links
+  const handleMovieIdSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const entered = movieId.trim();
+    if (!entered) {
+      toast.error("Please enter a movie ID or link");
+      return;
+    }
+    
+    const link = parseLink(entered);
+    if (!link) {
+      toast.error(`"${entered}" is not a recognised ID or link`, {
+        description: "Paste an IMDb, TMDB, Letterboxd or Wikidata link, or an IMDb/TMDB ID"
+      });
+      return;
     }
+    await loadLink(entered, link);
+  };
+
+  // Links pasted anywhere on the page outside a form field load straight away
+  usePasteLink((text, link) => {
+    setMovieId(text);
+    loadLink(text, link);
+  });
+
+  // Extract movie ID from the current URL
+  const extractMovieIdFromUrl = (url: string): string => {
+    const match = findSourceProviderForUrl(url);
+    return match?.ids.imdbId ?? "";
   };
 
   const currentMovieId = extractMovieIdFromUrl(videoUrl);
+  // Only movies picked through TMDB have a details page to link to
+  const currentDetailsId = sourceIds && !isEpisode(sourceIds) && sourceIds.tmdbId !== undefined
+    ? Number(sourceIds.tmdbId)
+    : null;
+  const refreshStatusText = describeRefreshState(refreshState);
 
   return (
     <div className="space-y-4 sm:space-y-8 max-w-4xl mx-auto px-2 sm:px-4">
@@ -199,12 +444,19 @@ const VideoFetcher: React.FC<VideoFetcherProps> = ({
             {selectedMovieTitle ? `Now Playing: ${selectedMovieTitle}` : "Dynamic Movie Video Player"}
           </CardTitle>
           <CardDescription>
-            Search for movies by name or enter a movie ID directly.
+            Search for movies, TV shows or people by name, or enter a movie ID or paste a link directly.
           </CardDescription>
         </CardHeader>
         <CardContent className="p-4 sm:p-6">
           <div className="grid gap-4 sm:gap-6 mb-4 sm:mb-6">
             <div>
+              <Tabs value={searchType} onValueChange={(value) => setSearchType(value as TMDBSearchType)} className="mb-2">
+                <TabsList>
+                  <TabsTrigger value="multi">All</TabsTrigger>
+                  <TabsTrigger value="movie">Movies</TabsTrigger>
+                  <TabsTrigger value="tv">TV Shows</TabsTrigger>
+                </TabsList>
+              </Tabs>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <Search className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400" />
@@ -213,7 +465,7 @@ const VideoFetcher: React.FC<VideoFetcherProps> = ({
                   type="text"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search for movies by title..."
+                  placeholder={`Search for ${SEARCH_TYPE_LABELS[searchType]}...`}
                   className="pl-10"
                 />
               </div>
@@ -226,57 +478,61 @@ const VideoFetcher: React.FC<VideoFetcherProps> = ({
               )}
               
               {searchResults.length > 0 && (
-                <div className="mt-2 border rounded-md shadow-sm max-h-40 sm:max-h-60 overflow-y-auto">
-                  <ul className="py-1 divide-y divide-gray-100">
-                    {searchResults.map((movie) => (
-                      <li 
-                        key={movie.id}
-                        className="px-2 sm:px-3 py-2 hover:bg-gray-100 cursor-pointer transition-colors flex items-center gap-2 sm:gap-3"
-                        onClick={() => handleMovieSelect(movie)}
-                      >
-                        {movie.poster_path ? (
-                          <img 
-                            src={getPosterUrl(movie.poster_path, isMobile ? 'w92' : 'w92')} 
-                            alt={movie.title}
-                            className="h-12 w-9 sm:h-16 sm:w-12 object-cover rounded"
-                          />
-                        ) : (
-                          <div className="h-12 w-9 sm:h-16 sm:w-12 bg-gray-200 rounded flex items-center justify-center">
-                            <Film className="h-4 w-4 sm:h-6 sm:w-6 text-gray-400" />
-                          </div>
-                        )}
-                        <div className="flex-1 min-w-0">
-                          <p className="text-xs sm:text-sm font-medium truncate">{movie.title}</p>
-                          <p className="text-xs text-muted-foreground">
-                            {movie.release_date ? new Date(movie.release_date).getFullYear() : 'Unknown year'}
-                          </p>
-                          {!isMobile && (
-                            <p className="text-xs text-muted-foreground line-clamp-1">
-                              {movie.overview || 'No overview available'}
-                            </p>
-                          )}
-                        </div>
-                      </li>
-                    ))}
-                  </ul>
+                <div className="mt-2">
+                  <SearchResultsList results={searchResults} onSelect={handleResultSelect} />
+                  {totalResults > searchResults.length && (
+                    <Link
+                      to={getSearchPath(debouncedSearchQuery, searchType)}
+                      className="mt-1 inline-block text-xs sm:text-sm text-primary hover:underline"
+                    >
+                      See all {totalResults.toLocaleString()} results
+                    </Link>
+                  )}
                 </div>
               )}
               
-              {debouncedSearchQuery && !isSearching && searchResults.length === 0 && (
+              {hasSearchQuery && !isSearching && searchResults.length === 0 && (
                 <div className="mt-2 p-2 sm:p-3 text-xs sm:text-sm text-muted-foreground bg-muted/30 rounded">
-                  No movies found matching "{debouncedSearchQuery}"
+                  No {SEARCH_TYPE_LABELS[searchType]} found matching "{debouncedSearchQuery}"
+                </div>
+              )}
+              
+              {selectedPerson && (
+                <div className="mt-3 sm:mt-4">
+                  <PersonFilmography
+                    key={selectedPerson.id}
+                    person={selectedPerson}
+                    onSelect={handleResultSelect}
+                    onClose={() => setSelectedPerson(null)}
+                  />
+                </div>
+              )}
+              
+              {selectedShow && (
+                <div className="mt-3 sm:mt-4 space-y-3 sm:space-y-4">
+                  <div>
+                    <h3 className="text-xs sm:text-sm font-medium mb-2">Where to Watch</h3>
+                    <WatchProviders key={selectedShow.id} tmdbId={selectedShow.id} mediaType="tv" />
+                  </div>
+                  <EpisodePicker
+                    key={selectedShow.id}
+                    show={selectedShow}
+                    activeSeason={sourceIds?.tmdbId === selectedShow.id ? sourceIds.season : undefined}
+                    activeEpisode={sourceIds?.tmdbId === selectedShow.id ? sourceIds.episode : undefined}
+                    onEpisodeSelect={handleEpisodeSelect}
+                  />
                 </div>
               )}
             </div>
             
             <div className="mt-2 sm:mt-4">
-              <h3 className="text-xs sm:text-sm font-medium mb-2">Or Enter Movie ID</h3>
+              <h3 className="text-xs sm:text-sm font-medium mb-2">Or Enter Movie ID or Link</h3>
               <form onSubmit={handleMovieIdSubmit} className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
                 <Input
                   type="text"
                   value={movieId}
                   onChange={(e) => setMovieId(e.target.value)}
-                  placeholder="Enter movie ID (e.g., tt27995594)"
+                  placeholder="tt27995594, a TMDB ID, or an IMDb/TMDB/Letterboxd/Wikidata link"
                   className="flex-1"
                 />
                 <Button type="submit" variant="default" className="w-full sm:w-auto">
@@ -291,16 +547,25 @@ const VideoFetcher: React.FC<VideoFetcherProps> = ({
               <p className="text-xs sm:text-sm">
                 <span className="font-medium">Current Movie ID:</span> 
                 <span className="ml-1">{currentMovieId}</span>
+                {currentDetailsId !== null && (
+                  <Link to={getMoviePath(currentDetailsId)} className="ml-2 text-primary hover:underline">
+                    View details
+                  </Link>
+                )}
               </p>
             </div>
           )}
           
+          {refreshStatusText && (
+            <p className="mb-3 sm:mb-4 text-xs text-muted-foreground">{refreshStatusText}</p>
+          )}
+          
           {/* Removed video type and source info, now showing the movie title */}
-          <div className="mb-3 sm:mb-4">
-            <p className="text-base font-medium">
-              {selectedMovieTitle ? selectedMovieTitle : "Loading movie..."}
-            </p>
-          </div>
+          {selectedMovieTitle && (
+            <div className="mb-3 sm:mb-4">
+              <p className="text-base font-medium">{selectedMovieTitle}</p>
+            </div>
+          )}
           
           {isLoadingMovie ? (
             <div className="flex items-center justify-center p-8 sm:p-16">
@@ -309,14 +574,31 @@ const VideoFetcher: React.FC<VideoFetcherProps> = ({
                 <p className="text-muted-foreground text-sm sm:text-base">Loading movie...</p>
               </div>
             </div>
+          ) : !videoUrl ? (
+            <div className="flex items-center justify-center p-8 sm:p-16 rounded-lg bg-muted/30">
+              <div className="text-center">
+                <Clapperboard className="h-8 w-8 sm:h-10 sm:w-10 mx-auto mb-3 sm:mb-4 text-muted-foreground" />
+                <p className="text-muted-foreground text-sm sm:text-base">
+                  Search for a title or pick one below to start watching
+                </p>
+              </div>
+            </div>
           ) : (
             <div className="rounded-lg overflow-hidden">
               <VideoPlayer
                 initialSrc={videoUrl}
-                refreshInterval={60 * 60 * 1000} // Refresh every hour
-                fetchNewUrl={refreshVideoUrl}
-                key={videoUrl} // Add a key that changes when the video URL changes to force re-mount
+                fetchNewUrl={fetchNewUrlForPlayer}
+                key={playbackSession} // Remount only for a new title; refreshes swap the source in place
                 movieTitle={selectedMovieTitle} // Pass movie title to video player
+                sources={sourceChain.map(({ provider }) => ({
+                  id: provider.id,
+                  name: provider.name,
+                  available: isProviderAvailable(provider.id),
+                }))}
+                activeSourceId={activeProviderId ?? undefined}
+                onSourceChange={handleSourceChange}
+                onReady={handlePlayerReady}
+                onError={handlePlayerError}
               />
             </div>
           )}
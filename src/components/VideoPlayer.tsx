@@ -1,121 +1,209 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { RefreshCcw, AlertCircle } from "lucide-react";
+import { RefreshCcw, AlertCircle, RotateCcw } from "lucide-react";
+import { isNativeVideoSource, parseVideoUrl, probeVideoSource, VideoSourceConfig } from "@/services/videoService";
+import { getEmbedUrlAt } from "@/services/sourceProviders";
+import { IframeFailureReason, useIframeWatchdog } from "@/hooks/useIframeWatchdog";
+import NativeVideo from "./NativeVideo";
+
+/**
+ * Why the player ended up in the error state
+ */
+export type PlayerErrorReason = IframeFailureReason | 'media-error' | 'refresh-failed';
+
+/**
+ * Error reported to the parent through onError
+ */
+export interface PlayerError {
+  reason: PlayerErrorReason;
+  message: string;
+  src: string;
+}
+
+/**
+ * A source the viewer can switch to from the player header
+ */
+export interface PlayerSourceOption {
+  id: string;
+  name: string;
+  available: boolean;
+}
 
 interface VideoPlayerProps {
   initialSrc: string;
   width?: number;
   height?: number;
-  refreshInterval?: number; // in milliseconds
+  loadTimeout?: number; // in milliseconds, 0 disables the load watchdog
+  heartbeatTimeout?: number; // in milliseconds, 0 disables heartbeat checks
   fetchNewUrl?: () => Promise<string>;
   movieTitle?: string;
+  sources?: PlayerSourceOption[];
+  activeSourceId?: string;
+  onSourceChange?: (sourceId: string) => void;
+  onReady?: () => void;
+  onError?: (error: PlayerError) => void;
 }
 
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
   initialSrc,
   width = 797,
   height = 453,
-  refreshInterval = 3600000, // Default to 1 hour
+  loadTimeout = 20000,
+  heartbeatTimeout = 15000,
   fetchNewUrl,
   movieTitle = "",
+  sources = [],
+  activeSourceId,
+  onSourceChange,
+  onReady,
+  onError,
 }) => {
   const [videoSrc, setVideoSrc] = useState<string>(initialSrc);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [hasError, setHasError] = useState<boolean>(false);
-  const [embedUrl, setEmbedUrl] = useState<string>("");
+  const [errorMessage, setErrorMessage] = useState<string>("");
+  const [source, setSource] = useState<VideoSourceConfig | null>(() => parseVideoUrl(initialSrc));
+  const [reloadToken, setReloadToken] = useState<number>(0);
+  const [iframeStartTime, setIframeStartTime] = useState<number>(0);
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // Last position reported by a cooperating embed, in seconds
+  const iframePositionRef = useRef<number>(0);
 
   // Update video source when initialSrc changes
   useEffect(() => {
     setVideoSrc(initialSrc);
+  }, [initialSrc]);
+
+  // Classify the source whenever it changes, probing its content type if the URL alone doesn't tell
+  useEffect(() => {
+    const parsed = parseVideoUrl(videoSrc);
+    setSource(parsed);
+    // A refreshed embed picks up where the previous one left off
+    setIframeStartTime(iframePositionRef.current);
+    if (parsed?.type !== 'unknown') return;
     
-    // Create embed URL from initial source
-    const baseUrl = initialSrc.split('/stream')[0];
-    if (baseUrl.includes('jole340erun.com')) {
-      // Extract the movie ID from the URL or use a default embed URL
-      const movieId = initialSrc.includes('/play/') 
-        ? initialSrc.split('/play/')[1].split('?')[0] 
-        : extractMovieIdFromUrl(initialSrc);
-      
-      if (movieId) {
-        setEmbedUrl(`https://jole340erun.com/play/${movieId}`);
-      } else {
-        setEmbedUrl(initialSrc);
+    let cancelled = false;
+    probeVideoSource(parsed).then((probed) => {
+      if (!cancelled) setSource(probed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoSrc]);
+
+  const isNative = source !== null && isNativeVideoSource(source);
+  
+  // Unknown sources get the benefit of the doubt as an embed page
+  const iframeSrc = source?.type === 'iframe-embed'
+    ? getEmbedUrlAt(source.url, iframeStartTime)
+    : source?.type === 'youtube' ? source.embedUrl : videoSrc;
+
+  const reportError = (reason: PlayerErrorReason, message: string, title = "Failed to load video") => {
+    setHasError(true);
+    setErrorMessage(message);
+    toast.error(title, { description: message });
+    onError?.({ reason, message, src: videoSrc });
+  };
+
+  const handleIframeWatchdogLoad = useIframeWatchdog({
+    iframeRef,
+    loadKey: `${iframeSrc}#${reloadToken}`,
+    enabled: !hasError && !isNative,
+    loadTimeout,
+    heartbeatTimeout,
+    onFailure: (reason, message) => reportError(reason, message),
+    onHeartbeat: (message) => {
+      if (typeof message.currentTime === 'number') {
+        iframePositionRef.current = message.currentTime;
       }
-    } else {
-      setEmbedUrl(initialSrc);
-    }
-  }, [initialSrc]);
+    },
+    onReady,
+  });
 
-  const extractMovieIdFromUrl = (url: string): string => {
-    // Extract movie ID from URL (e.g., tt12345678)
-    const ttMatch = url.match(/tt\d+/);
-    return ttMatch ? ttMatch[0] : "";
+  // Reload the current source without asking for a new URL
+  const retryLoad = () => {
+    setHasError(false);
+    setErrorMessage("");
+    setReloadToken((token) => token + 1);
   };
 
   const refreshVideoUrl = async () => {
     setIsLoading(true);
     setHasError(false);
+    setErrorMessage("");
     
     try {
       if (fetchNewUrl) {
         const newUrl = await fetchNewUrl();
         setVideoSrc(newUrl);
         
-        // Update the embed URL
-        const baseUrl = newUrl.split('/stream')[0];
-        if (baseUrl.includes('jole340erun.com')) {
-          const movieId = newUrl.includes('/play/') 
-            ? newUrl.split('/play/')[1].split('?')[0] 
-            : extractMovieIdFromUrl(newUrl);
-          
-          if (movieId) {
-            setEmbedUrl(`https://jole340erun.com/play/${movieId}`);
-          } else {
-            setEmbedUrl(newUrl);
-          }
-        } else {
-          setEmbedUrl(newUrl);
-        }
-        
         toast.success("Video source updated successfully");
       } else {
-        if (iframeRef.current) {
-          const currentSrc = iframeRef.current.src;
-          iframeRef.current.src = '';
-          setTimeout(() => {
-            if (iframeRef.current) iframeRef.current.src = currentSrc;
-          }, 100);
-        }
+        // Remounting the player reloads the source from scratch
+        setReloadToken((token) => token + 1);
         toast.info("Video refreshed");
       }
     } catch (error) {
       console.error("Error refreshing video URL:", error);
-      setHasError(true);
-      toast.error("Failed to update video source");
+      reportError(
+        'refresh-failed',
+        error instanceof Error ? error.message : "The video source could not be refreshed",
+        "Failed to update video source"
+      );
     } finally {
       setIsLoading(false);
     }
   };
 
-  useEffect(() => {
-    if (refreshInterval > 0) {
-      timerRef.current = setInterval(refreshVideoUrl, refreshInterval);
-    }
+  const handleMediaError = () => {
+    reportError('media-error', "The player failed to load");
+  };
 
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, [refreshInterval, videoSrc]);
+  const handleNativeError = (message: string) => {
+    console.error("Native playback error:", message);
+    reportError('media-error', message);
+  };
 
-  const handleMediaError = () => {
-    setHasError(true);
-    toast.error("Failed to load video");
+  // Direct streams play in a <video> element, everything else in an iframe
+  const renderPlayer = () => {
+    switch (source?.type) {
+      case 'hls':
+      case 'dash':
+      case 'progressive':
+        return (
+          <NativeVideo
+            key={reloadToken}
+            src={source.url}
+            type={source.type}
+            mimeType={source.mimeType}
+            width={width}
+            height={height}
+            className="w-full aspect-video rounded-lg bg-black transition-opacity duration-300 ease-in-out"
+            style={{ opacity: isLoading ? 0.3 : 1 }}
+            onError={handleNativeError}
+            onLoadedData={onReady}
+          />
+        );
+      default:
+        return (
+          <iframe
+            key={reloadToken}
+            ref={iframeRef}
+            src={iframeSrc}
+            width={width}
+            height={height}
+            frameBorder="0"
+            allowFullScreen={true}
+            className="w-full aspect-video rounded-lg transition-opacity duration-300 ease-in-out"
+            style={{ opacity: isLoading ? 0.3 : 1 }}
+            onLoad={handleIframeWatchdogLoad}
+            onError={handleMediaError}
+          />
+        );
+    }
   };
 
   return (
@@ -127,6 +215,20 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
           </h3>
         </div>
         <div className="flex gap-2">
+          {sources.length > 1 && onSourceChange && (
+            <Select value={activeSourceId} onValueChange={onSourceChange}>
+              <SelectTrigger className="h-9 w-[160px]" aria-label="Video source">
+                <SelectValue placeholder="Source" />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.available ? option.name : `${option.name} (cooling down)`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -153,27 +255,22 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
             <div className="text-center">
               <h3 className="text-lg font-medium">Video unavailable</h3>
               <p className="text-sm text-muted-foreground mt-1">
-                The video source might have expired. Please try refreshing.
+                {errorMessage || "The video source might have expired."} Please try again or refresh the source.
               </p>
             </div>
             <div className="flex flex-col sm:flex-row gap-2">
-              <Button onClick={refreshVideoUrl} variant="outline">
+              <Button onClick={retryLoad} variant="outline" className="flex items-center gap-1">
+                <RotateCcw className="h-4 w-4" />
                 Try Again
               </Button>
+              <Button onClick={refreshVideoUrl} variant="outline" className="flex items-center gap-1">
+                <RefreshCcw className="h-4 w-4" />
+                Refresh Source
+              </Button>
             </div>
           </div>
         ) : (
-          <iframe
-            ref={iframeRef}
-            src={embedUrl || videoSrc}
-            width={width}
-            height={height}
-            frameBorder="0"
-            allowFullScreen={true}
-            className="w-full aspect-video rounded-lg transition-opacity duration-300 ease-in-out"
-            style={{ opacity: isLoading ? 0.3 : 1 }}
-            onError={handleMediaError}
-          />
+          renderPlayer()
         )}
       </div>
       
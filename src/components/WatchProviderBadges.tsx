@@ -0,0 +1,84 @@
+import React from 'react';
+import { TMDBWatchProvider } from '@/services/tmdbService';
+import { useWatchProviders } from '@/hooks/useTmdbQueries';
+import { useLocalePreference } from '@/hooks/useLocalePreference';
+import { useInView } from '@/hooks/useInView';
+import TmdbImage from './TmdbImage';
+
+interface WatchProviderBadgesProps {
+  tmdbId: number;
+  mediaType: 'movie' | 'tv';
+}
+
+// Logos shown before the rest are summed up as "+N"
+const MAX_BADGES = 3;
+
+/**
+ * Small logos of where a search result can be legally watched in the user's region,
+ * streaming services first, each linking through TMDB's watch page to the provider
+ * Availability is only looked up once the result scrolls into view, so long lists
+ * don't crowd the shared TMDB request queue
+ */
+const WatchProviderBadges: React.FC<WatchProviderBadgesProps> = ({ tmdbId, mediaType }) => {
+  const [{ region }] = useLocalePreference();
+  const [inViewRef, inView] = useInView();
+  const { data } = useWatchProviders(tmdbId, region, mediaType, inView);
+
+  // A store that both rents and sells a title gets one badge
+  const offers = new Map<number, { provider: TMDBWatchProvider; action: string }>();
+  if (data) {
+    [
+      ...data.flatrate.map((provider) => ({ provider, action: 'Stream on' })),
+      ...data.rent.map((provider) => ({ provider, action: 'Rent on' })),
+      ...data.buy.map((provider) => ({ provider, action: 'Buy on' })),
+    ].forEach((offer) => {
+      if (!offers.has(offer.provider.provider_id)) offers.set(offer.provider.provider_id, offer);
+    });
+  }
+
+  // The empty wrapper stays mounted so it can be watched until the result scrolls into view
+  if (!data || offers.size === 0) return <div ref={inViewRef} />;
+
+  const shown = [...offers.values()].slice(0, MAX_BADGES);
+  return (
+    <div ref={inViewRef} className="mt-1 flex items-center gap-1">
+      {shown.map(({ provider, action }) => {
+        const label = `${action} ${provider.provider_name}`;
+        const badge = provider.logo_path ? (
+          <TmdbImage
+            kind="logo"
+            path={provider.logo_path}
+            fallbackSize="w45"
+            sizes="20px"
+            alt={label}
+            title={label}
+            className="h-5 w-5 rounded object-cover"
+          />
+        ) : (
+          <span title={label} className="text-xs text-muted-foreground">
+            {provider.provider_name}
+          </span>
+        );
+        return data.link ? (
+          <a
+            key={provider.provider_id}
+            href={data.link}
+            target="_blank"
+            rel="noopener noreferrer"
+            // The row itself selects the title for the player
+            onClick={(event) => event.stopPropagation()}
+          >
+            {badge}
+          </a>
+        ) : (
+          <React.Fragment key={provider.provider_id}>{badge}</React.Fragment>
+        );
+      })}
+      {offers.size > shown.length && (
+        <span className="text-xs text-muted-foreground">+{offers.size - shown.length}</span>
+      )}
+    </div>
+  );
+};
+
+export default WatchProviderBadges;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { TMDBWatchProvider } from '@/services/tmdbService';
+import { getTmdbErrorMessage } from '@/services/tmdbRequest';
+import { getRegionLabel } from '@/services/localePreference';
+import { useWatchProviders } from '@/hooks/useTmdbQueries';
+import { useLocalePreference } from '@/hooks/useLocalePreference';
+import TmdbImage from './TmdbImage';
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface WatchProvidersProps {
+  tmdbId: number;
+  mediaType: 'movie' | 'tv';
+}
+
+const GROUPS: { key: 'flatrate' | 'rent' | 'buy'; label: string }[] = [
+  { key: 'flatrate', label: 'Stream' },
+  { key: 'rent', label: 'Rent' },
+  { key: 'buy', label: 'Buy' },
+];
+
+/**
+ * Logos of the services a title can be legally streamed, rented or bought on in the
+ * user's region, each linking through TMDB's watch page to the provider
+ */
+const WatchProviders: React.FC<WatchProvidersProps> = ({ tmdbId, mediaType }) => {
+  const [{ region }] = useLocalePreference();
+  const { data, isLoading, error } = useWatchProviders(tmdbId, region, mediaType);
+
+  if (isLoading) {
+    return (
+      <div className="flex gap-2">
+        {Array.from({ length: 4 }, (_, index) => (
+          <Skeleton key={index} className="h-10 w-10 rounded-md" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        {getTmdbErrorMessage(error) ?? "Availability couldn't be loaded."}
+      </p>
+    );
+  }
+
+  const groups = GROUPS.filter(({ key }) => data && data[key].length > 0);
+  if (!data || groups.length === 0) {
+    return (
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        Not available to stream, rent or buy in {getRegionLabel(region)}.
+      </p>
+    );
+  }
+
+  const renderLogo = (provider: TMDBWatchProvider) => {
+    const logo = provider.logo_path ? (
+      <TmdbImage
+        kind="logo"
+        path={provider.logo_path}
+        fallbackSize="w92"
+        sizes="40px"
+        alt={provider.provider_name}
+        className="h-10 w-10 rounded-md object-cover shadow-sm"
+      />
+    ) : (
+      <span className="h-10 w-10 rounded-md bg-gray-200 flex items-center justify-center text-[10px] text-center leading-tight p-1">
+        {provider.provider_name}
+      </span>
+    );
+    return data.link ? (
+      <a
+        key={provider.provider_id}
+        href={data.link}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={provider.provider_name}
+        className="transition-transform hover:scale-105"
+      >
+        {logo}
+      </a>
+    ) : (
+      <span key={provider.provider_id} title={provider.provider_name}>{logo}</span>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {groups.map(({ key, label }) => (
+        <div key={key} className="flex items-center gap-3">
+          <span className="w-12 shrink-0 text-xs font-medium text-muted-foreground">{label}</span>
+          <div className="flex flex-wrap gap-2">{data[key].map(renderLogo)}</div>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Availability in {getRegionLabel(region)} from JustWatch
+      </p>
+    </div>
+  );
+};
+
+export default WatchProviders;
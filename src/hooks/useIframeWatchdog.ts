@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Why the watchdog gave up on an iframe
+ */
+export type IframeFailureReason = 'load-timeout' | 'heartbeat-lost' | 'embed-error';
+
+/**
+ * Messages cooperating embeds can post to the parent window
+ * Embeds that send `player:ready` or `player:heartbeat` are expected to keep
+ * sending heartbeats; embeds that never send anything are only watched until they load.
+ * Heartbeats may carry the playback position so it survives a source refresh.
+ */
+export interface EmbedPlayerMessage {
+  type: 'player:ready' | 'player:heartbeat' | 'player:error';
+  message?: string;
+  /** Playback position in seconds */
+  currentTime?: number;
+}
+
+interface IframeWatchdogOptions {
+  iframeRef: React.RefObject<HTMLIFrameElement>;
+  /** Changes whenever a new load starts (source or reload counter) */
+  loadKey: string;
+  enabled: boolean;
+  loadTimeout: number;
+  heartbeatTimeout: number;
+  onFailure: (reason: IframeFailureReason, message: string) => void;
+  onHeartbeat?: (message: EmbedPlayerMessage) => void;
+  /** Called once per load when the player is known to work (see useIframeWatchdog) */
+  onReady?: () => void;
+}
+
+const isEmbedPlayerMessage = (data: unknown): data is EmbedPlayerMessage => {
+  return typeof data === 'object' && data !== null &&
+    typeof (data as EmbedPlayerMessage).type === 'string' &&
+    (data as EmbedPlayerMessage).type.startsWith('player:');
+};
+
+/**
+ * Custom hook that detects iframes that never load or stop responding
+ * Browsers don't fire onError for cross-origin frames, so failure is inferred
+ * from a missing onLoad and, for cooperating embeds, missing postMessage heartbeats.
+ * onLoad also fires for error pages, so a load only counts as ready on a ready or
+ * heartbeat message, or once a heartbeat timeout passes after onLoad without a failure.
+ * @returns A handler to attach to the iframe's onLoad
+ */
+export function useIframeWatchdog({
+  iframeRef,
+  loadKey,
+  enabled,
+  loadTimeout,
+  heartbeatTimeout,
+  onFailure,
+  onHeartbeat,
+  onReady,
+}: IframeWatchdogOptions): () => void {
+  const loadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const readyTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isReadyRef = useRef(false);
+  const onFailureRef = useRef(onFailure);
+  onFailureRef.current = onFailure;
+  const onHeartbeatRef = useRef(onHeartbeat);
+  onHeartbeatRef.current = onHeartbeat;
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+
+  const clearLoadTimer = () => {
+    if (loadTimerRef.current) {
+      clearTimeout(loadTimerRef.current);
+      loadTimerRef.current = null;
+    }
+  };
+
+  const clearReadyTimer = useCallback(() => {
+    if (readyTimerRef.current) {
+      clearTimeout(readyTimerRef.current);
+      readyTimerRef.current = null;
+    }
+  }, []);
+
+  const reportReady = useCallback(() => {
+    clearReadyTimer();
+    if (isReadyRef.current) return;
+    isReadyRef.current = true;
+    onReadyRef.current?.();
+  }, [clearReadyTimer]);
+
+  const reportFailure = useCallback((reason: IframeFailureReason, message: string) => {
+    clearReadyTimer();
+    onFailureRef.current(reason, message);
+  }, [clearReadyTimer]);
+
+  // Every load has to prove itself again
+  useEffect(() => {
+    isReadyRef.current = false;
+    return clearReadyTimer;
+  }, [enabled, loadKey, clearReadyTimer]);
+
+  // Start the load timer whenever a new load begins
+  useEffect(() => {
+    if (!enabled || loadTimeout <= 0) return;
+
+    loadTimerRef.current = setTimeout(() => {
+      loadTimerRef.current = null;
+      reportFailure('load-timeout', `The player did not load within ${Math.round(loadTimeout / 1000)} seconds`);
+    }, loadTimeout);
+
+    return clearLoadTimer;
+  }, [enabled, loadKey, loadTimeout, reportFailure]);
+
+  // Listen for heartbeats from cooperating embeds
+  useEffect(() => {
+    if (!enabled) return;
+
+    let heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const armHeartbeat = () => {
+      if (heartbeatTimer) clearTimeout(heartbeatTimer);
+      if (heartbeatTimeout <= 0) return;
+      heartbeatTimer = setTimeout(() => {
+        reportFailure('heartbeat-lost', "The player stopped responding");
+      }, heartbeatTimeout);
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      // Only trust messages from our own iframe
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return;
+      if (!isEmbedPlayerMessage(event.data)) return;
+
+      if (event.data.type === 'player:error') {
+        if (heartbeatTimer) clearTimeout(heartbeatTimer);
+        reportFailure('embed-error', event.data.message || "The player reported an error");
+        return;
+      }
+
+      // A ready or heartbeat message also proves the frame loaded
+      clearLoadTimer();
+      armHeartbeat();
+      reportReady();
+      onHeartbeatRef.current?.(event.data);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      if (heartbeatTimer) clearTimeout(heartbeatTimer);
+    };
+  }, [enabled, loadKey, heartbeatTimeout, iframeRef, reportFailure, reportReady]);
+
+  return useCallback(() => {
+    clearLoadTimer();
+    if (!enabled || isReadyRef.current) return;
+    // Give a cooperating embed a heartbeat's time to report an error before trusting the load
+    clearReadyTimer();
+    readyTimerRef.current = setTimeout(reportReady, Math.max(heartbeatTimeout, 0));
+  }, [enabled, heartbeatTimeout, clearReadyTimer, reportReady]);
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { getImageConfiguration, loadImageConfiguration, TMDBImageConfiguration } from '@/services/tmdbService';
+
+/**
+ * Custom hook that loads the TMDB image configuration and re-renders once it is available
+ * @returns The configuration, TMDB's defaults until it has loaded
+ */
+export function useImageConfiguration(): TMDBImageConfiguration {
+  const [configuration, setConfiguration] = useState<TMDBImageConfiguration>(getImageConfiguration);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageConfiguration().then((loaded) => {
+      if (!cancelled) setConfiguration(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return configuration;
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Custom hook that reports whether an element has scrolled into view
+ * Stays true once the element has been seen, so work it starts isn't thrown away on scrolling past
+ * @param rootMargin How far outside the viewport still counts as in view (default: 100px)
+ * @returns Ref callback to attach to the element, and whether it has been in view
+ */
+export function useInView(rootMargin = '100px'): [(element: HTMLElement | null) => void, boolean] {
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  const [inView, setInView] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!element || inView) return;
+    // Without IntersectionObserver there is no cheap way to tell, so everything counts as visible
+    if (typeof IntersectionObserver === 'undefined') {
+      setInView(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setInView(true);
+      }
+    }, { rootMargin });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element, inView, rootMargin]);
+
+  return [useCallback((node: HTMLElement | null) => setElement(node), []), inView];
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Custom hook that calls onLoadMore whenever a sentinel element scrolls into view
+ * @param onLoadMore Function that loads the next page
+ * @param enabled Whether more pages can be loaded right now
+ * @param rootMargin How far ahead of the sentinel to start loading (default: 200px)
+ * @returns Ref callback to attach to the sentinel element
+ */
+export function useInfiniteScroll(
+  onLoadMore: () => void,
+  enabled: boolean,
+  rootMargin = '200px'
+): (element: HTMLElement | null) => void {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const elementRef = useRef<HTMLElement | null>(null);
+  // Read through a ref so a new callback doesn't recreate the observer
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onLoadMoreRef.current();
+      }
+    }, { rootMargin });
+    observerRef.current = observer;
+    if (elementRef.current) {
+      observer.observe(elementRef.current);
+    }
+
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [enabled, rootMargin]);
+
+  return useCallback((element: HTMLElement | null) => {
+    if (elementRef.current) {
+      observerRef.current?.unobserve(elementRef.current);
+    }
+    elementRef.current = element;
+    if (element) {
+      observerRef.current?.observe(element);
+    }
+  }, []);
+}
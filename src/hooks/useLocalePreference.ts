@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getLocalePreference,
+  setLocalePreference,
+  subscribeToLocalePreference,
+  LocalePreference,
+} from '@/services/localePreference';
+
+/**
+ * Custom hook for the language and region TMDB metadata is shown in
+ * TMDB queries are keyed by locale, so they refetch on their own when it changes
+ * @returns The current preference and a function that changes it
+ */
+export function useLocalePreference(): [LocalePreference, (update: Partial<LocalePreference>) => void] {
+  const preference = useSyncExternalStore(subscribeToLocalePreference, getLocalePreference);
+  return [preference, setLocalePreference];
+}
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+import { parseLink, ParsedLink } from '@/services/linkResolver';
+
+// Pastes into these go to the field as usual
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Custom hook that listens for links pasted anywhere on the page outside form fields
+ * Only links and IMDb IDs count: a pasted phone number or year shouldn't start a movie
+ * @param onLink Called with the pasted text and its parsed identifier when the text is a recognised link or IMDb ID
+ */
+export function usePasteLink(onLink: (text: string, link: ParsedLink) => void): void {
+  const onLinkRef = useRef(onLink);
+  onLinkRef.current = onLink;
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditable(event.target)) return;
+      const text = event.clipboardData?.getData('text/plain').trim() ?? '';
+      const link = parseLink(text, { bareIds: false });
+      if (link) {
+        event.preventDefault();
+        onLinkRef.current(text, link);
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+}
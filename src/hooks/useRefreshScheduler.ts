@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createRefreshScheduler,
+  INITIAL_REFRESH_STATE,
+  RefreshScheduler,
+  RefreshSchedulerState,
+} from '@/services/refreshScheduler';
+import { RefreshedVideoUrl } from '@/services/videoService';
+
+interface UseRefreshSchedulerOptions {
+  refresh: (currentUrl: string) => Promise<RefreshedVideoUrl>;
+  onRefreshed: (refreshed: RefreshedVideoUrl) => void;
+  fallbackInterval?: number;
+  /** Whether a URL may be refreshed on a timer */
+  canAutoRefresh?: (url: string) => boolean;
+  /** Called when timed refreshes give up after repeated failures */
+  onGiveUp?: (error: Error) => void;
+}
+
+/**
+ * Custom hook that keeps a video URL fresh through a single refresh scheduler
+ * @param url The URL currently playing
+ * @param expiresAt Its expiry, if the refresh endpoint reported one
+ * @param options Refresh callbacks and fallback interval
+ * @returns The scheduler state and a function to refresh immediately
+ */
+export function useRefreshScheduler(
+  url: string,
+  expiresAt: Date | null,
+  { refresh, onRefreshed, fallbackInterval = 0, canAutoRefresh, onGiveUp }: UseRefreshSchedulerOptions
+): { state: RefreshSchedulerState; refreshNow: () => Promise<RefreshedVideoUrl> } {
+  // Callbacks are read through refs so new callbacks don't recreate the scheduler
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+  const onRefreshedRef = useRef(onRefreshed);
+  onRefreshedRef.current = onRefreshed;
+  const canAutoRefreshRef = useRef(canAutoRefresh);
+  canAutoRefreshRef.current = canAutoRefresh;
+  const onGiveUpRef = useRef(onGiveUp);
+  onGiveUpRef.current = onGiveUp;
+
+  const schedulerRef = useRef<RefreshScheduler | null>(null);
+  const [state, setState] = useState<RefreshSchedulerState>(INITIAL_REFRESH_STATE);
+
+  // The effect that creates the scheduler is the one that disposes it, so a re-run
+  // (or StrictMode's mount, unmount, mount) always leaves a live, listening scheduler
+  useEffect(() => {
+    const scheduler = createRefreshScheduler({
+      refresh: (currentUrl) => refreshRef.current(currentUrl),
+      onRefreshed: (refreshed) => onRefreshedRef.current(refreshed),
+      canSchedule: (currentUrl) => canAutoRefreshRef.current?.(currentUrl) ?? true,
+      onGiveUp: (error) => onGiveUpRef.current?.(error),
+      fallbackInterval,
+    });
+    schedulerRef.current = scheduler;
+    setState(scheduler.getState());
+    const unsubscribe = scheduler.subscribe(setState);
+    return () => {
+      unsubscribe();
+      scheduler.dispose();
+      schedulerRef.current = null;
+    };
+  }, [fallbackInterval]);
+
+  // Declared after the scheduler effect so a new scheduler is handed the URL in the same commit
+  useEffect(() => {
+    if (url) {
+      schedulerRef.current?.track(url, expiresAt);
+    }
+  }, [url, expiresAt, fallbackInterval]);
+
+  const refreshNow = useCallback(() => {
+    const scheduler = schedulerRef.current;
+    return scheduler
+      ? scheduler.refreshNow()
+      : Promise.reject(new Error("The refresh scheduler is not running"));
+  }, []);
+
+  return { state, refreshNow };
+}
@@ -0,0 +1,327 @@
+import { useSyncExternalStore } from 'react';
+import { infiniteQueryOptions, keepPreviousData, queryOptions, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { getLocalePreference, subscribeToLocalePreference } from '@/services/localePreference';
+import {
+  discoverMovies,
+  findByImdbId,
+  getMovieDetails,
+  getMovieFullDetails,
+  getMovieGenres,
+  getMovieList,
+  getPersonCredits,
+  getTrending,
+  getTvDetails,
+  getTvSeason,
+  getWatchProviders,
+  searchPage,
+  DiscoverMovieFilters,
+  TMDBMovieListType,
+  TMDBSearchType,
+  TrendingOptions,
+} from '@/services/tmdbService';
+
+// TMDB metadata barely changes; searches and trending lists move faster
+const DETAILS_STALE_TIME = 24 * 60 * 60 * 1000;
+const LIST_STALE_TIME = 10 * 60 * 1000;
+
+/**
+ * Query keys for TMDB data, so related queries can be invalidated together
+ * Every key but `all` includes the language and region at the time it's made, since TMDB
+ * answers in them; each locale keeps its own cache and switching back reuses it
+ */
+export const tmdbKeys = {
+  all: ['tmdb'] as const,
+  locale: () => {
+    const { language, region } = getLocalePreference();
+    return [...tmdbKeys.all, language, region.toLowerCase()] as const;
+  },
+  search: (query: string, type: TMDBSearchType) => [...tmdbKeys.locale(), 'search', type, query] as const,
+  searchPage: (query: string, type: TMDBSearchType, page: number) => [...tmdbKeys.search(query, type), page] as const,
+  trending: ({ mediaType = 'movie', timeWindow = 'day', region }: TrendingOptions) =>
+    [...tmdbKeys.locale(), 'trending', mediaType, timeWindow, region?.toLowerCase() ?? 'global'] as const,
+  discover: (filters: DiscoverMovieFilters, page: number) => [...tmdbKeys.locale(), 'discover', filters, page] as const,
+  movieList: (list: TMDBMovieListType, page: number) => [...tmdbKeys.locale(), 'movie-list', list, page] as const,
+  genres: () => [...tmdbKeys.locale(), 'genres', 'movie'] as const,
+  movie: (movieId: number) => [...tmdbKeys.locale(), 'movie', movieId] as const,
+  movieFull: (movieId: number) => [...tmdbKeys.movie(movieId), 'full'] as const,
+  imdb: (imdbId: string) => [...tmdbKeys.locale(), 'find', imdbId] as const,
+  tv: (tvId: number) => [...tmdbKeys.locale(), 'tv', tvId] as const,
+  tvSeason: (tvId: number, seasonNumber: number) => [...tmdbKeys.tv(tvId), 'season', seasonNumber] as const,
+  personCredits: (personId: number) => [...tmdbKeys.locale(), 'person', personId, 'credits'] as const,
+  watchProviders: (mediaType: 'movie' | 'tv', tmdbId: number, region: string) =>
+    [...tmdbKeys.locale(), mediaType, tmdbId, 'watch-providers', region.toLowerCase()] as const,
+};
+
+/**
+ * Query options for one page of search results
+ * @param query Search query string; queries under 2 characters are disabled
+ * @param type Which search endpoint to use
+ * @param page Page number, starting at 1
+ */
+export const movieSearchQuery = (query: string, type: TMDBSearchType = 'multi', page: number = 1) =>
+  queryOptions({
+    queryKey: tmdbKeys.searchPage(query, type, page),
+    queryFn: ({ signal }) => searchPage(query, type, page, signal),
+    enabled: query.length >= 2,
+    staleTime: LIST_STALE_TIME,
+  });
+
+/**
+ * Query options for search results loaded page by page, for infinite scrolling
+ * @param query Search query string; queries under 2 characters are disabled
+ * @param type Which search endpoint to use
+ */
+export const infiniteSearchQuery = (query: string, type: TMDBSearchType = 'multi') =>
+  infiniteQueryOptions({
+    queryKey: [...tmdbKeys.search(query, type), 'infinite'],
+    queryFn: ({ pageParam, signal }) => searchPage(query, type, pageParam, signal),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.page < lastPage.total_pages ? lastPage.page + 1 : undefined),
+    enabled: query.length >= 2,
+    staleTime: LIST_STALE_TIME,
+  });
+
+/**
+ * Query options for a trending list
+ * @param options Media type, time window and optional region
+ */
+export const trendingQuery = (options: TrendingOptions = {}) =>
+  queryOptions({
+    queryKey: tmdbKeys.trending(options),
+    queryFn: ({ signal }) => getTrending(options, signal),
+    staleTime: LIST_STALE_TIME,
+  });
+
+/**
+ * Query options for one page of discovered movies
+ * @param filters Discovery filters
+ * @param page Page number, starting at 1
+ */
+export const discoverQuery = (filters: DiscoverMovieFilters, page: number = 1) =>
+  queryOptions({
+    queryKey: tmdbKeys.discover(filters, page),
+    queryFn: ({ signal }) => discoverMovies(filters, page, signal),
+    staleTime: LIST_STALE_TIME,
+  });
+
+/**
+ * Query options for one page of a curated movie list
+ * @param list Which list to get
+ * @param page Page number, starting at 1
+ */
+export const movieListQuery = (list: TMDBMovieListType, page: number = 1) =>
+  queryOptions({
+    queryKey: tmdbKeys.movieList(list, page),
+    queryFn: ({ signal }) => getMovieList(list, page, signal),
+    staleTime: LIST_STALE_TIME,
+  });
+
+/**
+ * Query options for the movie genre list
+ */
+export const genresQuery = () =>
+  queryOptions({
+    queryKey: tmdbKeys.genres(),
+    queryFn: ({ signal }) => getMovieGenres(signal),
+    staleTime: DETAILS_STALE_TIME,
+  });
+
+/**
+ * Query options for basic movie details
+ * @param movieId TMDB movie ID
+ */
+export const movieQuery = (movieId: number) =>
+  queryOptions({
+    queryKey: tmdbKeys.movie(movieId),
+    queryFn: ({ signal }) => getMovieDetails(movieId, signal),
+    staleTime: DETAILS_STALE_TIME,
+  });
+
+/**
+ * Query options for movie details with credits, videos and release dates
+ * @param movieId TMDB movie ID
+ */
+export const movieDetailsQuery = (movieId: number) =>
+  queryOptions({
+    queryKey: tmdbKeys.movieFull(movieId),
+    queryFn: ({ signal }) => getMovieFullDetails(movieId, signal),
+    staleTime: DETAILS_STALE_TIME,
+  });
+
+/**
+ * Query options for looking up an IMDB ID
+ * @param imdbId IMDB ID
+ */
+export const imdbLookupQuery = (imdbId: string) =>
+  queryOptions({
+    queryKey: tmdbKeys.imdb(imdbId),
+    queryFn: ({ signal }) => findByImdbId(imdbId, signal),
+    staleTime: DETAILS_STALE_TIME,
+  });
+
+/**
+ * Query options for TV series details
+ * @param tvId TMDB series ID
+ */
+export const tvDetailsQuery = (tvId: number) =>
+  queryOptions({
+    queryKey: tmdbKeys.tv(tvId),
+    queryFn: ({ signal }) => getTvDetails(tvId, signal),
+    staleTime: DETAILS_STALE_TIME,
+  });
+
+/**
+ * Query options for a season of a TV series
+ * @param tvId TMDB series ID
+ * @param seasonNumber Season number
+ */
+export const tvSeasonQuery = (tvId: number, seasonNumber: number) =>
+  queryOptions({
+    queryKey: tmdbKeys.tvSeason(tvId, seasonNumber),
+    queryFn: ({ signal }) => getTvSeason(tvId, seasonNumber, signal),
+    staleTime: DETAILS_STALE_TIME,
+  });
+
+/**
+ * Query options for a person's combined credits
+ * @param personId TMDB person ID
+ */
+export const personCreditsQuery = (personId: number) =>
+  queryOptions({
+    queryKey: tmdbKeys.personCredits(personId),
+    queryFn: ({ signal }) => getPersonCredits(personId, signal),
+    staleTime: DETAILS_STALE_TIME,
+  });
+
+/**
+ * Query options for where a title can be streamed, rented or bought
+ * @param tmdbId TMDB movie or series ID
+ * @param region ISO 3166-1 region code
+ * @param mediaType Whether the ID is a movie or a series
+ */
+export const watchProvidersQuery = (tmdbId: number, region: string, mediaType: 'movie' | 'tv' = 'movie') =>
+  queryOptions({
+    queryKey: tmdbKeys.watchProviders(mediaType, tmdbId, region),
+    queryFn: ({ signal }) => getWatchProviders(tmdbId, region, mediaType, signal),
+    staleTime: DETAILS_STALE_TIME,
+  });
+
+/**
+ * Re-render when the language or region changes, so queries switch to keys for the new locale
+ */
+function useLocaleKeys(): void {
+  useSyncExternalStore(subscribeToLocalePreference, getLocalePreference);
+}
+
+/**
+ * Custom hook for one page of search results, keeping the previous results on screen while the next load
+ * @param query Search query string
+ * @param type Which search endpoint to use
+ * @param page Page number, starting at 1
+ * @returns The search query
+ */
+export function useMovieSearch(query: string, type: TMDBSearchType = 'multi', page: number = 1) {
+  useLocaleKeys();
+  return useQuery({ ...movieSearchQuery(query, type, page), placeholderData: keepPreviousData });
+}
+
+/**
+ * Custom hook for search results loaded page by page
+ * @param query Search query string
+ * @param type Which search endpoint to use
+ * @returns The infinite search query
+ */
+export function useInfiniteSearch(query: string, type: TMDBSearchType = 'multi') {
+  useLocaleKeys();
+  return useInfiniteQuery(infiniteSearchQuery(query, type));
+}
+
+/**
+ * Custom hook for full movie details
+ * @param movieId TMDB movie ID, or null to skip the query
+ * @returns The movie details query
+ */
+export function useMovieDetails(movieId: number | null) {
+  useLocaleKeys();
+  return useQuery({ ...movieDetailsQuery(movieId ?? 0), enabled: movieId !== null });
+}
+
+/**
+ * Custom hook for a trending list
+ * @param options Media type, time window and optional region
+ * @returns The trending query
+ */
+export function useTrending(options: TrendingOptions = {}) {
+  useLocaleKeys();
+  return useQuery(trendingQuery(options));
+}
+
+/**
+ * Custom hook for one page of discovered movies
+ * @param filters Discovery filters
+ * @param page Page number, starting at 1
+ * @returns The discover query
+ */
+export function useDiscoverMovies(filters: DiscoverMovieFilters, page: number = 1) {
+  useLocaleKeys();
+  return useQuery({ ...discoverQuery(filters, page), placeholderData: keepPreviousData });
+}
+
+/**
+ * Custom hook for one page of a curated movie list
+ * @param list Which list to get
+ * @param page Page number, starting at 1
+ * @returns The movie list query
+ */
+export function useMovieList(list: TMDBMovieListType, page: number = 1) {
+  useLocaleKeys();
+  return useQuery(movieListQuery(list, page));
+}
+
+/**
+ * Custom hook for the movie genre list
+ * @returns The genres query
+ */
+export function useMovieGenres() {
+  useLocaleKeys();
+  return useQuery(genresQuery());
+}
+
+/**
+ * Custom hook for a season of a TV series
+ * @param tvId TMDB series ID
+ * @param seasonNumber Season number, or null to skip the query
+ * @returns The season query
+ */
+export function useTvSeason(tvId: number, seasonNumber: number | null) {
+  useLocaleKeys();
+  return useQuery({ ...tvSeasonQuery(tvId, seasonNumber ?? 0), enabled: seasonNumber !== null });
+}
+
+/**
+ * Custom hook for a person's combined credits
+ * @param personId TMDB person ID
+ * @returns The credits query
+ */
+export function usePersonCredits(personId: number) {
+  useLocaleKeys();
+  return useQuery(personCreditsQuery(personId));
+}
+
+/**
+ * Custom hook for where a title can be streamed, rented or bought in a region
+ * @param tmdbId TMDB movie or series ID
+ * @param region ISO 3166-1 region code
+ * @param mediaType Whether the ID is a movie or a series
+ * @param enabled Whether to fetch yet, e.g. only once the title is on screen
+ * @returns The watch providers query
+ */
+export function useWatchProviders(
+  tmdbId: number,
+  region: string,
+  mediaType: 'movie' | 'tv' = 'movie',
+  enabled: boolean = true
+) {
+  useLocaleKeys();
+  return useQuery({ ...watchProvidersQuery(tmdbId, region, mediaType), enabled });
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getWatchHistory, subscribeToWatchHistory, WatchHistoryEntry } from '@/services/watchHistory';
+
+/**
+ * Custom hook for the watch history, re-rendering whenever it changes
+ * @returns The entries, newest first
+ */
+export function useWatchHistory(): WatchHistoryEntry[] {
+  return useSyncExternalStore(subscribeToWatchHistory, getWatchHistory);
+}
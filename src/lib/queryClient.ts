@@ -0,0 +1,49 @@
+import { QueryClient } from '@tanstack/react-query';
+import { PersistQueryClientOptions } from '@tanstack/react-query-persist-client';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { del, get, set } from 'idb-keyval';
+
+// Persisted queries older than this are dropped on restore
+const PERSIST_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// IndexedDB key the query cache is stored under
+const PERSIST_KEY = 'tmdb-query-cache';
+
+/**
+ * Query client shared by the whole app
+ * Queries stay cached for as long as they can be persisted, so a reload restores them all
+ */
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 5 * 60 * 1000,
+      gcTime: PERSIST_MAX_AGE_MS,
+      refetchOnWindowFocus: false,
+      // The TMDB request layer already retries transient failures with backoff
+      retry: false,
+    },
+  },
+});
+
+/**
+ * Persister that keeps the query cache in IndexedDB, which unlike localStorage
+ * has room for full details responses and doesn't block the main thread
+ */
+const indexedDbPersister = createAsyncStoragePersister({
+  storage: {
+    getItem: async (key) => (await get<string>(key)) ?? null,
+    setItem: (key, value: string) => set(key, value),
+    removeItem: (key) => del(key),
+  },
+  key: PERSIST_KEY,
+});
+
+/**
+ * Options for PersistQueryClientProvider
+ */
+export const persistOptions: Omit<PersistQueryClientOptions, 'queryClient'> = {
+  persister: indexedDbPersister,
+  maxAge: PERSIST_MAX_AGE_MS,
+  // Bump when cached response shapes change so old caches are discarded
+  buster: 'v4',
+};
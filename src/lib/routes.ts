@@ -0,0 +1,122 @@
+import {
+  getDiscoverFilterErrors,
+  DiscoverMovieFilters,
+  TMDBDiscoverSortBy,
+  TMDBMultiResult,
+  TMDBSearchType,
+} from '@/services/tmdbService';
+
+/**
+ * Router state handed to the player page when another page picks something to watch
+ */
+export interface PlayerHandoffState {
+  /** Result to route as if it had been picked in the player's own search */
+  select: TMDBMultiResult;
+  /** Episode to play straight away, when the result is a series */
+  episode?: {
+    season: number;
+    episode: number;
+  };
+}
+
+/**
+ * Build the path of the full search results page
+ * @param query Search query string
+ * @param type Search type, omitted from the URL when it is the default
+ * @param page Page number, omitted from the URL for the first page
+ * @returns Path with query string
+ */
+export const getSearchPath = (query: string, type: TMDBSearchType = 'multi', page: number = 1): string => {
+  const params = new URLSearchParams({ q: query });
+  if (type !== 'multi') params.set('type', type);
+  if (page > 1) params.set('page', String(page));
+  return `/search?${params.toString()}`;
+};
+
+/**
+ * Read the player hand-off out of router state
+ * @param state Router location state
+ * @returns The hand-off, or null if the state is not one
+ */
+export const getPlayerHandoff = (state: unknown): PlayerHandoffState | null => {
+  if (state && typeof state === 'object' && 'select' in state) {
+    return state as PlayerHandoffState;
+  }
+  return null;
+};
+
+/**
+ * Build the path of a movie's details page
+ * @param tmdbId TMDB movie ID
+ * @returns Path
+ */
+export const getMoviePath = (tmdbId: number): string => `/movie/${tmdbId}`;
+
+// Browse page query parameters for each numeric discovery filter
+const NUMERIC_FILTER_PARAMS = {
+  yearFrom: 'from',
+  yearTo: 'to',
+  minVoteAverage: 'rating',
+  minVoteCount: 'votes',
+  minRuntime: 'minRuntime',
+  maxRuntime: 'maxRuntime',
+} as const;
+
+const DISCOVER_SORT_ORDERS: TMDBDiscoverSortBy[] = [
+  'popularity.desc',
+  'popularity.asc',
+  'vote_average.desc',
+  'vote_average.asc',
+  'primary_release_date.desc',
+  'primary_release_date.asc',
+  'revenue.desc',
+  'original_title.asc',
+];
+
+/**
+ * Build the path of the browse page for a set of discovery filters
+ * @param filters Discovery filters
+ * @param page Page number, omitted from the URL for the first page
+ * @returns Path with query string
+ */
+export const getBrowsePath = (filters: DiscoverMovieFilters, page: number = 1): string => {
+  const params = new URLSearchParams();
+  if (filters.genreIds?.length) params.set('genres', filters.genreIds.join(','));
+  (Object.keys(NUMERIC_FILTER_PARAMS) as (keyof typeof NUMERIC_FILTER_PARAMS)[]).forEach((key) => {
+    const value = filters[key];
+    if (value !== undefined) params.set(NUMERIC_FILTER_PARAMS[key], String(value));
+  });
+  if (filters.originalLanguage) params.set('lang', filters.originalLanguage);
+  if (filters.sortBy && filters.sortBy !== 'popularity.desc') params.set('sort', filters.sortBy);
+  if (page > 1) params.set('page', String(page));
+  const query = params.toString();
+  return query ? `/browse?${query}` : '/browse';
+};
+
+/**
+ * Read discovery filters out of the browse page's query string, ignoring malformed values
+ * Years outside TMDB's range are dropped, as is the upper end of a range that is the wrong way round
+ * @param params Query parameters of the browse page
+ * @returns Discovery filters
+ */
+export const parseDiscoverFilters = (params: URLSearchParams): DiscoverMovieFilters => {
+  const filters: DiscoverMovieFilters = {};
+  const genreIds = (params.get('genres') ?? '')
+    .split(',')
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+  if (genreIds.length) filters.genreIds = genreIds;
+  (Object.keys(NUMERIC_FILTER_PARAMS) as (keyof typeof NUMERIC_FILTER_PARAMS)[]).forEach((key) => {
+    const raw = params.get(NUMERIC_FILTER_PARAMS[key]);
+    const value = raw === null || raw === '' ? NaN : Number(raw);
+    if (Number.isFinite(value) && value >= 0) filters[key] = value;
+  });
+  const language = params.get('lang');
+  if (language && /^[a-z]{2}$/.test(language)) filters.originalLanguage = language;
+  const sortBy = DISCOVER_SORT_ORDERS.find((order) => order === params.get('sort'));
+  if (sortBy) filters.sortBy = sortBy;
+  (Object.keys(getDiscoverFilterErrors(filters)) as (keyof DiscoverMovieFilters)[]).forEach((key) => {
+    delete filters[key];
+  });
+  return filters;
+};
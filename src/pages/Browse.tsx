@@ -0,0 +1,157 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import DiscoverFilterForm from '@/components/DiscoverFilterForm';
+import PageLinks from '@/components/PageLinks';
+import TmdbImage from '@/components/TmdbImage';
+import { DiscoverMovieFilters } from '@/services/tmdbService';
+import { getTmdbErrorMessage } from '@/services/tmdbRequest';
+import { getBrowsePath, getMoviePath, parseDiscoverFilters } from '@/lib/routes';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { toast } from "sonner";
+import { ArrowLeft, Film, SlidersHorizontal } from "lucide-react";
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useDiscoverMovies, useMovieGenres } from '@/hooks/useTmdbQueries';
+
+// Count the filters that narrow the results, for the filter button badge
+const countActiveFilters = (filters: DiscoverMovieFilters): number =>
+  [
+    filters.genreIds?.length,
+    filters.yearFrom !== undefined || filters.yearTo !== undefined,
+    filters.originalLanguage,
+    filters.minVoteAverage,
+    filters.minVoteCount,
+    filters.minRuntime !== undefined || filters.maxRuntime !== undefined,
+  ].filter(Boolean).length;
+
+const Browse = () => {
+  const [searchParams] = useSearchParams();
+  // Parsed once per URL so the filter form only resets when the URL changes
+  const filters = useMemo(() => parseDiscoverFilters(searchParams), [searchParams]);
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const isMobile = useIsMobile();
+  const navigate = useNavigate();
+
+  const [isFilterOpen, setIsFilterOpen] = useState<boolean>(false);
+  const { data: genres = [] } = useMovieGenres();
+  const { data, isLoading, error } = useDiscoverMovies(filters, page);
+  const movies = data?.results ?? [];
+  const totalPages = data?.total_pages ?? 0;
+  const totalResults = data?.total_results ?? 0;
+
+  useEffect(() => {
+    if (error) {
+      toast.error("Failed to load movies", {
+        description: getTmdbErrorMessage(error)
+      });
+    }
+  }, [error]);
+
+  const handleApply = (nextFilters: DiscoverMovieFilters) => {
+    setIsFilterOpen(false);
+    navigate(getBrowsePath(nextFilters));
+  };
+
+  const activeFilterCount = countActiveFilters(filters);
+  const genreNames = new Map(genres.map((genre) => [genre.id, genre.name]));
+
+  const filterForm = <DiscoverFilterForm genres={genres} filters={filters} onApply={handleApply} />;
+
+  return (
+    <div className="min-h-screen py-6 sm:py-12 bg-gradient-to-b from-white to-gray-50">
+      <div className="container mx-auto px-4 max-w-5xl space-y-4 sm:space-y-6">
+        <header className="space-y-3">
+          <Link to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Back to player
+          </Link>
+          <div className="flex items-center justify-between gap-2">
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Browse Movies</h1>
+            <Button variant="outline" onClick={() => setIsFilterOpen(true)}>
+              <SlidersHorizontal className="h-4 w-4" />
+              Filters
+              {activeFilterCount > 0 && <Badge className="ml-1 px-1.5">{activeFilterCount}</Badge>}
+            </Button>
+          </div>
+          {!isLoading && (
+            <p className="text-sm text-muted-foreground">{totalResults.toLocaleString()} movies found</p>
+          )}
+          {filters.genreIds && genres.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {filters.genreIds.map((id) => (
+                <Badge key={id} variant="secondary">{genreNames.get(id) ?? id}</Badge>
+              ))}
+            </div>
+          )}
+        </header>
+
+        {isLoading ? (
+          <div className="grid grid-cols-3 sm:grid-cols-5 gap-3 sm:gap-4">
+            {Array.from({ length: 10 }, (_, index) => (
+              <Skeleton key={index} className="aspect-[2/3] w-full rounded-md" />
+            ))}
+          </div>
+        ) : movies.length > 0 ? (
+          <div className="grid grid-cols-3 sm:grid-cols-5 gap-3 sm:gap-4">
+            {movies.map((movie) => (
+              <Link key={movie.id} to={getMoviePath(movie.id)} className="group">
+                {movie.poster_path ? (
+                  <TmdbImage
+                    kind="poster"
+                    path={movie.poster_path}
+                    fallbackSize="w342"
+                    sizes="(min-width: 1024px) 190px, (min-width: 640px) 20vw, 33vw"
+                    alt={movie.title}
+                    className="aspect-[2/3] w-full object-cover rounded-md shadow-sm transition-transform group-hover:scale-105"
+                  />
+                ) : (
+                  <div className="aspect-[2/3] w-full bg-gray-200 rounded-md flex items-center justify-center">
+                    <Film className="h-6 w-6 text-gray-400" />
+                  </div>
+                )}
+                <p className="mt-1 text-xs sm:text-sm font-medium truncate">{movie.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {movie.release_year ?? 'Unknown year'}
+                </p>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <div className="p-2 sm:p-3 text-xs sm:text-sm text-muted-foreground bg-muted/30 rounded">
+            No movies match these filters
+          </div>
+        )}
+
+        <PageLinks page={page} totalPages={totalPages} getPagePath={(target) => getBrowsePath(filters, target)} />
+      </div>
+
+      {isMobile ? (
+        <Drawer open={isFilterOpen} onOpenChange={setIsFilterOpen}>
+          <DrawerContent className="max-h-[90vh]">
+            <DrawerHeader>
+              <DrawerTitle>Filters</DrawerTitle>
+              <DrawerDescription>Narrow down the movies to browse</DrawerDescription>
+            </DrawerHeader>
+            <div className="overflow-y-auto px-4 pb-4">{filterForm}</div>
+          </DrawerContent>
+        </Drawer>
+      ) : (
+        <Sheet open={isFilterOpen} onOpenChange={setIsFilterOpen}>
+          <SheetContent className="overflow-y-auto">
+            <SheetHeader className="mb-4">
+              <SheetTitle>Filters</SheetTitle>
+              <SheetDescription>Narrow down the movies to browse</SheetDescription>
+            </SheetHeader>
+            {filterForm}
+          </SheetContent>
+        </Sheet>
+      )}
+    </div>
+  );
+};
+
+export default Browse;
@@ -1,6 +1,9 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import VideoFetcher from '@/components/VideoFetcher';
+import HomeRails from '@/components/HomeRails';
+import LocaleSelector from '@/components/LocaleSelector';
 
 const Index = () => {
   return (
@@ -11,10 +14,17 @@ const Index = () => {
           <p className="text-base sm:text-xl text-muted-foreground max-w-2xl mx-auto">
             Search and play movies with multiple viewing options
           </p>
+          <Link to="/browse" className="mt-2 inline-block text-sm sm:text-base text-primary hover:underline">
+            Browse movies by genre, year and rating
+          </Link>
+          <div className="mt-4">
+            <LocaleSelector />
+          </div>
         </header>
 
-        <main>
+        <main className="space-y-8 sm:space-y-12">
           <VideoFetcher key="video-fetcher" />
+          <HomeRails />
         </main>
 
         <footer className="mt-12 sm:mt-20 text-center text-sm text-muted-foreground">
@@ -0,0 +1,272 @@
+
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  getCertification,
+  getTrailers,
+  TMDBVideo,
+} from '@/services/tmdbService';
+import { getTmdbErrorMessage, TmdbError } from '@/services/tmdbRequest';
+import { PlayerHandoffState } from '@/lib/routes';
+import TmdbImage from '@/components/TmdbImage';
+import WatchProviders from '@/components/WatchProviders';
+import { useMovieDetails } from '@/hooks/useTmdbQueries';
+import { useLocalePreference } from '@/hooks/useLocalePreference';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AspectRatio } from "@/components/ui/aspect-ratio";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ArrowLeft, Clock, Play, User, Youtube } from "lucide-react";
+
+// Cast members shown in the carousel
+const MAX_CAST = 20;
+
+// Format a runtime in minutes as e.g. 2h 15m
+const formatRuntime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+};
+
+const MovieDetails = () => {
+  const { tmdbId } = useParams<{ tmdbId: string }>();
+  const navigate = useNavigate();
+  const movieId = Number(tmdbId);
+  const isValidId = Number.isInteger(movieId) && movieId > 0;
+  const { data: movie, isLoading, error } = useMovieDetails(isValidId ? movieId : null);
+  const [{ region }] = useLocalePreference();
+  const [activeTrailer, setActiveTrailer] = useState<TMDBVideo | null>(null);
+  // A missing movie gets the not-found page; anything else is a failure worth explaining
+  const isNotFound = !isValidId || (error instanceof TmdbError && error.code === 'not-found');
+
+  useEffect(() => {
+    if (error && !isNotFound) {
+      toast.error("Failed to load movie details", {
+        description: getTmdbErrorMessage(error)
+      });
+    }
+  }, [error, isNotFound]);
+
+  // Hand the movie over to the player page, which resolves and plays it
+  const handlePlay = () => {
+    if (!movie) return;
+    const { id, title, poster_path, release_date, release_year, overview, imdb_id } = movie;
+    const state: PlayerHandoffState = {
+      select: { id, title, poster_path, release_date, release_year, overview, imdb_id, media_type: 'movie' },
+    };
+    navigate('/', { state });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen py-6 sm:py-12 bg-gradient-to-b from-white to-gray-50">
+        <div className="container mx-auto px-4 max-w-4xl space-y-4">
+          <Skeleton className="h-48 sm:h-72 w-full rounded-lg" />
+          <Skeleton className="h-8 w-2/3" />
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-5/6" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!movie) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center">
+          <p className="text-xl text-gray-600 mb-4">
+            {error && !isNotFound ? "Couldn't load this movie" : "Movie not found"}
+          </p>
+          {error && !isNotFound && (
+            <p className="text-sm text-muted-foreground mb-4">{getTmdbErrorMessage(error)}</p>
+          )}
+          <Link to="/" className="text-blue-500 hover:text-blue-700 underline">
+            Return to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const certification = getCertification(movie, region);
+  const trailers = getTrailers(movie);
+  const cast = [...movie.credits.cast].sort((a, b) => a.order - b.order).slice(0, MAX_CAST);
+  const directors = movie.credits.crew.filter((member) => member.job === 'Director');
+
+  return (
+    <div className="min-h-screen pb-6 sm:pb-12 bg-gradient-to-b from-white to-gray-50">
+      <div className="relative">
+        {movie.backdrop_path ? (
+          <TmdbImage
+            kind="backdrop"
+            path={movie.backdrop_path}
+            fallbackSize="w1280"
+            sizes="100vw"
+            loading="eager"
+            alt=""
+            className="w-full h-48 sm:h-80 object-cover"
+          />
+        ) : (
+          <div className="w-full h-24 sm:h-32 bg-gray-200" />
+        )}
+        <div className="absolute inset-0 bg-gradient-to-t from-white via-white/40 to-transparent" />
+        <Link
+          to="/"
+          className="absolute top-4 left-4 inline-flex items-center gap-1 rounded-md bg-white/80 px-2 py-1 text-sm backdrop-blur-sm hover:bg-white"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to player
+        </Link>
+      </div>
+
+      <div className="container mx-auto px-4 max-w-4xl -mt-16 sm:-mt-24 relative space-y-6 sm:space-y-8">
+        <div className="flex gap-4 sm:gap-6">
+          <TmdbImage
+            kind="poster"
+            path={movie.poster_path}
+            fallbackSize="w342"
+            sizes="160px"
+            loading="eager"
+            alt={movie.title}
+            className="hidden sm:block w-40 rounded-lg shadow-lg object-cover"
+          />
+          <div className="flex-1 min-w-0 space-y-3 pt-8 sm:pt-16">
+            <h1 className="text-2xl sm:text-4xl font-bold tracking-tight">
+              {movie.title} {movie.release_year && <span className="font-normal text-muted-foreground">({movie.release_year})</span>}
+            </h1>
+            {movie.tagline && <p className="italic text-muted-foreground">{movie.tagline}</p>}
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              {certification && <Badge variant="outline">{certification}</Badge>}
+              {movie.runtime ? (
+                <span className="inline-flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  {formatRuntime(movie.runtime)}
+                </span>
+              ) : null}
+              {movie.genres.map((genre) => (
+                <Badge key={genre.id} variant="secondary">{genre.name}</Badge>
+              ))}
+            </div>
+            {directors.length > 0 && (
+              <p className="text-sm">
+                <span className="font-medium">Directed by</span> {directors.map((member) => member.name).join(', ')}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handlePlay}>
+                <Play className="h-4 w-4" />
+                Play
+              </Button>
+              {trailers[0] && (
+                <Button variant="outline" onClick={() => setActiveTrailer(trailers[0])}>
+                  <Youtube className="h-4 w-4" />
+                  Watch Trailer
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <section>
+          <h2 className="text-lg font-semibold mb-2">Overview</h2>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            {movie.overview || 'No overview available'}
+          </p>
+        </section>
+
+        <section>
+          <h2 className="text-lg font-semibold mb-2">Where to Watch</h2>
+          <WatchProviders tmdbId={movie.id} mediaType="movie" />
+        </section>
+
+        {cast.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Cast</h2>
+            <Carousel opts={{ align: 'start', dragFree: true }}>
+              <CarouselContent>
+                {cast.map((member) => (
+                  <CarouselItem key={member.credit_id} className="basis-1/3 sm:basis-1/5">
+                    {member.profile_path ? (
+                      <TmdbImage
+                        kind="profile"
+                        path={member.profile_path}
+                        fallbackSize="w185"
+                        sizes="(min-width: 640px) 160px, 30vw"
+                        alt={member.name}
+                        className="w-full aspect-[2/3] object-cover rounded-md"
+                      />
+                    ) : (
+                      <div className="w-full aspect-[2/3] bg-gray-200 rounded-md flex items-center justify-center">
+                        <User className="h-6 w-6 text-gray-400" />
+                      </div>
+                    )}
+                    <p className="mt-1 text-xs sm:text-sm font-medium truncate">{member.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{member.character}</p>
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious className="hidden sm:flex" />
+              <CarouselNext className="hidden sm:flex" />
+            </Carousel>
+          </section>
+        )}
+
+        {trailers.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Trailers</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {trailers.map((trailer) => (
+                <button
+                  key={trailer.id}
+                  type="button"
+                  className="text-left group"
+                  onClick={() => setActiveTrailer(trailer)}
+                >
+                  <AspectRatio ratio={16 / 9} className="overflow-hidden rounded-md bg-gray-200">
+                    <img
+                      src={`https://i.ytimg.com/vi/${trailer.key}/hqdefault.jpg`}
+                      alt={trailer.name}
+                      className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                      loading="lazy"
+                    />
+                  </AspectRatio>
+                  <p className="mt-1 text-xs sm:text-sm line-clamp-2">{trailer.name}</p>
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+
+      <Dialog open={activeTrailer !== null} onOpenChange={(open) => !open && setActiveTrailer(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{activeTrailer?.name}</DialogTitle>
+          </DialogHeader>
+          {activeTrailer && (
+            <AspectRatio ratio={16 / 9}>
+              <iframe
+                src={`https://www.youtube.com/embed/${activeTrailer.key}?autoplay=1`}
+                title={activeTrailer.name}
+                className="h-full w-full rounded-md"
+                allow="autoplay; encrypted-media; picture-in-picture"
+                allowFullScreen
+              />
+            </AspectRatio>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MovieDetails;
@@ -0,0 +1,160 @@
+
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import SearchResultsList from '@/components/SearchResultsList';
+import PageLinks from '@/components/PageLinks';
+import { TMDBMultiResult, TMDBSearchType, SEARCH_TYPE_LABELS } from '@/services/tmdbService';
+import { getTmdbErrorMessage } from '@/services/tmdbRequest';
+import { getMoviePath, getSearchPath, PlayerHandoffState } from '@/lib/routes';
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2, Search as SearchIcon } from "lucide-react";
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useInfiniteSearch, useMovieSearch } from '@/hooks/useTmdbQueries';
+
+const SEARCH_TYPES: TMDBSearchType[] = ['multi', 'movie', 'tv'];
+
+// Read the search type from the URL, falling back to multi search for anything unknown
+const parseSearchType = (value: string | null): TMDBSearchType =>
+  SEARCH_TYPES.find((type) => type === value) ?? 'multi';
+
+const SearchPage = () => {
+  const [searchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+  const type = parseSearchType(searchParams.get('type'));
+  const requestedPage = Math.max(1, Number(searchParams.get('page')) || 1);
+  const isMobile = useIsMobile();
+  const navigate = useNavigate();
+
+  const [input, setInput] = useState<string>(query);
+
+  // Keep the input in step with the URL, e.g. after back navigation
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  // Desktop shows the page in the URL; mobile always starts from the first page and scrolls on.
+  // Only the active layout gets a query, the other one stays disabled
+  const pagedSearch = useMovieSearch(isMobile ? '' : query, type, requestedPage);
+  const infiniteSearch = useInfiniteSearch(isMobile ? query : '', type);
+
+  const pages = isMobile ? infiniteSearch.data?.pages ?? [] : pagedSearch.data ? [pagedSearch.data] : [];
+  const results: TMDBMultiResult[] = pages.flatMap((page) => page.results);
+  const totalPages = pages[0]?.total_pages ?? 0;
+  const totalResults = pages[0]?.total_results ?? 0;
+  const isLoading = isMobile ? infiniteSearch.isFetching : pagedSearch.isFetching;
+  const error = isMobile ? infiniteSearch.error : pagedSearch.error;
+
+  useEffect(() => {
+    if (error) {
+      toast.error(`Failed to search ${SEARCH_TYPE_LABELS[type]}`, {
+        description: getTmdbErrorMessage(error)
+      });
+    }
+  }, [error, type]);
+
+  const sentinelRef = useInfiniteScroll(
+    () => infiniteSearch.fetchNextPage(),
+    isMobile && !isLoading && infiniteSearch.hasNextPage
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim().length < 2) {
+      toast.error("Please enter at least 2 characters");
+      return;
+    }
+    navigate(getSearchPath(input.trim(), type));
+  };
+
+  // Movies open their details page; anything else is handed over to the player page,
+  // which routes it like its own search results
+  const handleSelect = (result: TMDBMultiResult) => {
+    if (result.media_type === 'movie') {
+      navigate(getMoviePath(result.id));
+      return;
+    }
+    const state: PlayerHandoffState = { select: result };
+    navigate('/', { state });
+  };
+
+  return (
+    <div className="min-h-screen py-6 sm:py-12 bg-gradient-to-b from-white to-gray-50">
+      <div className="container mx-auto px-4 max-w-4xl space-y-4 sm:space-y-6">
+        <header className="space-y-3">
+          <Link to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Back to player
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
+            {query ? `Results for "${query}"` : "Search"}
+          </h1>
+          {query && !isLoading && (
+            <p className="text-sm text-muted-foreground">
+              {totalResults.toLocaleString()} {SEARCH_TYPE_LABELS[type]} found
+            </p>
+          )}
+        </header>
+
+        <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <SearchIcon className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400" />
+            </div>
+            <Input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={`Search for ${SEARCH_TYPE_LABELS[type]}...`}
+              className="pl-10"
+            />
+          </div>
+          <Button type="submit" className="w-full sm:w-auto">Search</Button>
+        </form>
+
+        <Tabs
+          value={type}
+          onValueChange={(value) => navigate(getSearchPath(query, value as TMDBSearchType), { replace: true })}
+        >
+          <TabsList>
+            <TabsTrigger value="multi">All</TabsTrigger>
+            <TabsTrigger value="movie">Movies</TabsTrigger>
+            <TabsTrigger value="tv">TV Shows</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {results.length > 0 && (
+          <SearchResultsList results={results} onSelect={handleSelect} scrollable={false} />
+        )}
+
+        {isLoading && (
+          <div className="flex items-center justify-center space-x-2 p-4 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Searching TMDB...</span>
+          </div>
+        )}
+
+        {query && !isLoading && results.length === 0 && (
+          <div className="p-2 sm:p-3 text-xs sm:text-sm text-muted-foreground bg-muted/30 rounded">
+            No {SEARCH_TYPE_LABELS[type]} found matching "{query}"
+          </div>
+        )}
+
+        {isMobile ? (
+          <div ref={sentinelRef} aria-hidden className="h-px" />
+        ) : (
+          <PageLinks
+            page={requestedPage}
+            totalPages={totalPages}
+            getPagePath={(page) => getSearchPath(query, type, page)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPage;
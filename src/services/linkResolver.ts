@@ -0,0 +1,231 @@
+/**
+ * Turns whatever a user pastes - an IMDb, TMDB, Letterboxd or Wikidata link,
+ * or a bare IMDb/TMDB ID - into a TMDB title.
+ *
+ * Parsing is synchronous and offline; resolving goes through tmdbService, plus
+ * the Wikidata API for Wikidata items.
+ */
+
+import {
+  findByImdbId,
+  getMovieDetails,
+  getTvDetails,
+  getTvSeason,
+  searchMovies,
+  TMDBImdbMatch,
+} from './tmdbService';
+
+/**
+ * Canonical identifier extracted from a pasted link or ID
+ */
+export type ParsedLink =
+  | { source: 'imdb'; imdbId: string }
+  | { source: 'tmdb'; mediaType: 'movie' | 'tv'; tmdbId: number; season?: number; episode?: number }
+  | { source: 'letterboxd'; slug: string }
+  | { source: 'wikidata'; entityId: string };
+
+// Wikidata properties holding the identifiers we can resolve
+const WIKIDATA_IMDB_ID = 'P345';
+const WIKIDATA_TMDB_MOVIE_ID = 'P4947';
+const WIKIDATA_TMDB_TV_ID = 'P4983';
+
+const WIKIDATA_API_URL = 'https://www.wikidata.org/w/api.php';
+
+const IMDB_ID_PATTERN = /^tt\d{7,}$/i;
+const WIKIDATA_ENTITY_PATTERN = /^Q\d+$/i;
+
+/**
+ * Interface for the claims part of a Wikidata wbgetentities response
+ */
+interface WikidataEntitiesResponse {
+  entities?: Record<string, {
+    claims?: Record<string, { mainsnak: { datavalue?: { value: unknown } } }[]>;
+  }>;
+}
+
+// Parse a URL, accepting links pasted without a scheme such as "imdb.com/title/tt0137523"
+const toUrl = (text: string): URL | null => {
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+};
+
+// Check a hostname against a site's domain, allowing any subdomain (www., m., de. ...)
+const isHost = (hostname: string, domain: string): boolean =>
+  hostname === domain || hostname.endsWith(`.${domain}`);
+
+/**
+ * Recognise a pasted link or ID
+ * Handles IMDb title links (including m.imdb.com and localized paths like /de/title/),
+ * TMDB movie, series and episode links, Letterboxd film links, Wikidata item links,
+ * and bare IMDb IDs, TMDB movie IDs and Wikidata Q-IDs
+ * @param text Pasted text
+ * @param options.bareIds Whether bare TMDB IDs and Q-IDs count (default true); a lone number or
+ * Q-number is only meant as an ID when typed into an ID field, not when pasted anywhere
+ * @returns The canonical identifier, or null if the text isn't something we recognise
+ */
+export const parseLink = (text: string, { bareIds = true }: { bareIds?: boolean } = {}): ParsedLink | null => {
+  const input = text.trim();
+  if (!input) return null;
+
+  if (IMDB_ID_PATTERN.test(input)) {
+    return { source: 'imdb', imdbId: input.toLowerCase() };
+  }
+  if (/^\d+$/.test(input)) {
+    if (!bareIds) return null;
+    return { source: 'tmdb', mediaType: 'movie', tmdbId: Number(input) };
+  }
+  if (WIKIDATA_ENTITY_PATTERN.test(input)) {
+    if (!bareIds) return null;
+    return { source: 'wikidata', entityId: input.toUpperCase() };
+  }
+
+  const url = toUrl(input);
+  if (!url) return null;
+  const hostname = url.hostname.toLowerCase();
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (isHost(hostname, 'imdb.com')) {
+    // The ID follows "title" wherever it sits: /title/tt.../, /de/title/tt.../, /title/tt.../episodes
+    const titleIndex = segments.indexOf('title');
+    const imdbId = titleIndex >= 0 ? segments[titleIndex + 1] : undefined;
+    return imdbId && IMDB_ID_PATTERN.test(imdbId) ? { source: 'imdb', imdbId: imdbId.toLowerCase() } : null;
+  }
+
+  if (isHost(hostname, 'themoviedb.org')) {
+    // /movie/550-fight-club, /tv/1399-game-of-thrones/season/1/episode/2
+    const [mediaType, idSlug, seasonLabel, season, episodeLabel, episode] = segments;
+    const tmdbId = parseInt(idSlug ?? '', 10);
+    if ((mediaType !== 'movie' && mediaType !== 'tv') || !Number.isInteger(tmdbId)) return null;
+    if (mediaType === 'tv' && seasonLabel === 'season' && episodeLabel === 'episode') {
+      const seasonNumber = parseInt(season, 10);
+      const episodeNumber = parseInt(episode, 10);
+      if (Number.isInteger(seasonNumber) && Number.isInteger(episodeNumber)) {
+        return { source: 'tmdb', mediaType, tmdbId, season: seasonNumber, episode: episodeNumber };
+      }
+    }
+    return { source: 'tmdb', mediaType, tmdbId };
+  }
+
+  if (isHost(hostname, 'letterboxd.com')) {
+    // /film/fight-club/ or a member's /someone/film/fight-club/
+    const filmIndex = segments.indexOf('film');
+    const slug = filmIndex >= 0 ? segments[filmIndex + 1] : undefined;
+    return slug ? { source: 'letterboxd', slug: slug.toLowerCase() } : null;
+  }
+
+  if (isHost(hostname, 'wikidata.org')) {
+    // /wiki/Q190050, or ?item=Q190050 on special pages
+    const entityId = segments.find((segment) => WIKIDATA_ENTITY_PATTERN.test(segment))
+      ?? url.searchParams.get('item') ?? url.searchParams.get('id');
+    return entityId && WIKIDATA_ENTITY_PATTERN.test(entityId)
+      ? { source: 'wikidata', entityId: entityId.toUpperCase() }
+      : null;
+  }
+
+  return null;
+};
+
+/**
+ * Fetch the IMDb and TMDB identifiers recorded on a Wikidata item
+ * @param entityId Wikidata item ID, e.g. Q190050
+ * @returns Promise with whichever identifiers the item has
+ */
+const getWikidataIds = async (
+  entityId: string
+): Promise<{ imdbId?: string; tmdbMovieId?: number; tmdbTvId?: number }> => {
+  const url = new URL(WIKIDATA_API_URL);
+  url.search = new URLSearchParams({
+    action: 'wbgetentities',
+    ids: entityId,
+    props: 'claims',
+    format: 'json',
+    origin: '*',
+  }).toString();
+
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error(`Wikidata API error: ${response.status}`);
+  }
+  const data: WikidataEntitiesResponse = await response.json();
+  const claims = data.entities?.[entityId]?.claims ?? {};
+  const firstValue = (property: string): string | undefined => {
+    const value = claims[property]?.[0]?.mainsnak.datavalue?.value;
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const imdbId = firstValue(WIKIDATA_IMDB_ID);
+  const tmdbMovieId = Number(firstValue(WIKIDATA_TMDB_MOVIE_ID));
+  const tmdbTvId = Number(firstValue(WIKIDATA_TMDB_TV_ID));
+  return {
+    imdbId: imdbId && IMDB_ID_PATTERN.test(imdbId) ? imdbId : undefined,
+    tmdbMovieId: tmdbMovieId > 0 ? tmdbMovieId : undefined,
+    tmdbTvId: tmdbTvId > 0 ? tmdbTvId : undefined,
+  };
+};
+
+/**
+ * Resolve a TMDB movie, series or episode link
+ * @param link Parsed TMDB link
+ * @returns Promise with the matching title
+ */
+const resolveTmdbLink = async (link: Extract<ParsedLink, { source: 'tmdb' }>): Promise<TMDBImdbMatch | null> => {
+  if (link.mediaType === 'movie') {
+    return { media_type: 'movie', movie: await getMovieDetails(link.tmdbId) };
+  }
+  if (link.season === undefined || link.episode === undefined) {
+    return { media_type: 'tv', show: await getTvDetails(link.tmdbId) };
+  }
+  const season = await getTvSeason(link.tmdbId, link.season);
+  const episode = season.episodes.find((candidate) => candidate.episode_number === link.episode);
+  return episode ? { media_type: 'episode', episode: { ...episode, show_id: link.tmdbId } } : null;
+};
+
+/**
+ * Resolve a Letterboxd film slug by searching TMDB for its title
+ * Letterboxd disambiguates remakes with a year suffix (dune-2021), which narrows the search
+ * @param slug Letterboxd film slug
+ * @returns Promise with the best matching movie
+ */
+const resolveLetterboxdSlug = async (slug: string): Promise<TMDBImdbMatch | null> => {
+  const yearMatch = slug.match(/^(.+)-(\d{4})$/);
+  const query = (yearMatch ? yearMatch[1] : slug).replace(/-/g, ' ');
+  const results = await searchMovies(query);
+  const movie = yearMatch
+    ? results.find((result) => result.release_year === Number(yearMatch[2])) ?? results[0]
+    : results[0];
+  return movie ? { media_type: 'movie', movie } : null;
+};
+
+/**
+ * Resolve a parsed link to the TMDB title it refers to
+ * @param link Parsed link
+ * @returns Promise with the matching movie, series or episode, or null if nothing matches
+ */
+export const resolveLink = async (link: ParsedLink): Promise<TMDBImdbMatch | null> => {
+  try {
+    switch (link.source) {
+      case 'imdb':
+        return await findByImdbId(link.imdbId);
+      case 'tmdb':
+        return await resolveTmdbLink(link);
+      case 'letterboxd':
+        return await resolveLetterboxdSlug(link.slug);
+      case 'wikidata': {
+        const ids = await getWikidataIds(link.entityId);
+        if (ids.imdbId) {
+          const match = await findByImdbId(ids.imdbId);
+          if (match) return match;
+        }
+        if (ids.tmdbMovieId) return await resolveTmdbLink({ source: 'tmdb', mediaType: 'movie', tmdbId: ids.tmdbMovieId });
+        if (ids.tmdbTvId) return await resolveTmdbLink({ source: 'tmdb', mediaType: 'tv', tmdbId: ids.tmdbTvId });
+        return null;
+      }
+    }
+  } catch (error) {
+    console.error('Error resolving link:', error);
+    throw error;
+  }
+};
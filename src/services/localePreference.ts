@@ -0,0 +1,121 @@
+/**
+ * The language and region TMDB metadata is requested in.
+ *
+ * Stored in localStorage so each browser keeps its own choice. Changing it
+ * only affects requests made afterwards; callers refetch what they show.
+ */
+
+/**
+ * Language and region for TMDB requests
+ */
+export interface LocalePreference {
+  /** IETF language tag TMDB translates titles and overviews into, e.g. 'hi-IN' */
+  language: string;
+  /** ISO 3166-1 region used for release dates, certifications and regional lists, e.g. 'IN' */
+  region: string;
+}
+
+/**
+ * Languages offered in the language picker, each labelled in its own script
+ */
+export const LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'en-US', label: 'English' },
+  { value: 'hi-IN', label: 'हिन्दी (Hindi)' },
+  { value: 'ta-IN', label: 'தமிழ் (Tamil)' },
+  { value: 'te-IN', label: 'తెలుగు (Telugu)' },
+  { value: 'ml-IN', label: 'മലയാളം (Malayalam)' },
+  { value: 'kn-IN', label: 'ಕನ್ನಡ (Kannada)' },
+  { value: 'bn-IN', label: 'বাংলা (Bengali)' },
+  { value: 'mr-IN', label: 'मराठी (Marathi)' },
+];
+
+/**
+ * Regions offered in the region picker
+ */
+export const REGION_OPTIONS: { value: string; label: string }[] = [
+  { value: 'IN', label: 'India' },
+  { value: 'US', label: 'United States' },
+  { value: 'GB', label: 'United Kingdom' },
+  { value: 'CA', label: 'Canada' },
+  { value: 'AU', label: 'Australia' },
+  { value: 'AE', label: 'United Arab Emirates' },
+  { value: 'SG', label: 'Singapore' },
+];
+
+// Most users are in India but TMDB's English metadata is the most complete
+const DEFAULT_LOCALE_PREFERENCE: LocalePreference = {
+  language: 'en-US',
+  region: 'IN',
+};
+
+const LOCALE_PREFERENCE_STORAGE_KEY = 'locale-preference';
+
+type Listener = (preference: LocalePreference) => void;
+
+const listeners = new Set<Listener>();
+
+// Read the stored preference, keeping the default for anything missing or unknown
+const readStoredPreference = (): LocalePreference => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOCALE_PREFERENCE_STORAGE_KEY) ?? '{}');
+    return {
+      language: LANGUAGE_OPTIONS.some(({ value }) => value === stored.language)
+        ? stored.language
+        : DEFAULT_LOCALE_PREFERENCE.language,
+      region: REGION_OPTIONS.some(({ value }) => value === stored.region)
+        ? stored.region
+        : DEFAULT_LOCALE_PREFERENCE.region,
+    };
+  } catch {
+    return DEFAULT_LOCALE_PREFERENCE;
+  }
+};
+
+let preference: LocalePreference = readStoredPreference();
+
+/**
+ * Get the current language and region
+ * @returns The preference; the same object until it changes
+ */
+export const getLocalePreference = (): LocalePreference => preference;
+
+/**
+ * Change the language and/or region and remember the choice
+ * @param update Fields to change
+ */
+export const setLocalePreference = (update: Partial<LocalePreference>): void => {
+  preference = { ...preference, ...update };
+  try {
+    localStorage.setItem(LOCALE_PREFERENCE_STORAGE_KEY, JSON.stringify(preference));
+  } catch {
+    // Storage full or disabled: the choice only lasts for this visit
+  }
+  listeners.forEach((listener) => listener(preference));
+};
+
+/**
+ * Listen for changes to the language and region
+ * @param listener Called with the new preference
+ * @returns Function that stops listening
+ */
+export const subscribeToLocalePreference = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get the ISO 639-1 part of a language tag, as TMDB uses for translations and image languages
+ * @param language Language tag, e.g. 'hi-IN'
+ * @returns Language code, e.g. 'hi'
+ */
+export const getLanguageCode = (language: string): string => language.split('-')[0];
+
+/**
+ * Get the display name of a region
+ * @param region ISO 3166-1 region code
+ * @returns Region name, or the code for regions not in the picker
+ */
+export const getRegionLabel = (region: string): string =>
+  REGION_OPTIONS.find(({ value }) => value === region.toUpperCase())?.label ?? region.toUpperCase();
@@ -0,0 +1,76 @@
+/**
+ * Per-provider circuit breaker.
+ *
+ * Providers that fail repeatedly are skipped for a cool-down period, after
+ * which they get one trial load: success closes the circuit, another failure
+ * opens it again.
+ */
+
+/**
+ * Circuit state of a provider
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface ProviderHealth {
+  consecutiveFailures: number;
+  openedAt: number | null;
+}
+
+// Consecutive failures that open a provider's circuit
+const FAILURE_THRESHOLD = 3;
+
+// How long an open circuit keeps a provider out of the failover chain
+const COOL_DOWN_MS = 5 * 60 * 1000;
+
+const health = new Map<string, ProviderHealth>();
+
+const getHealth = (providerId: string): ProviderHealth => {
+  let entry = health.get(providerId);
+  if (!entry) {
+    entry = { consecutiveFailures: 0, openedAt: null };
+    health.set(providerId, entry);
+  }
+  return entry;
+};
+
+/**
+ * Get the circuit state of a provider
+ * @param providerId Provider id
+ * @param now Current time in milliseconds
+ * @returns 'open' while cooling down, 'half-open' once the cool-down has passed, otherwise 'closed'
+ */
+export const getCircuitState = (providerId: string, now: number = Date.now()): CircuitState => {
+  const entry = health.get(providerId);
+  if (!entry || entry.openedAt === null) return 'closed';
+  return now - entry.openedAt < COOL_DOWN_MS ? 'open' : 'half-open';
+};
+
+/**
+ * Check whether a provider should be tried
+ * @param providerId Provider id
+ * @returns False while the provider's circuit is open
+ */
+export const isProviderAvailable = (providerId: string): boolean => getCircuitState(providerId) !== 'open';
+
+/**
+ * Record that a provider's source loaded
+ * @param providerId Provider id
+ */
+export const recordProviderSuccess = (providerId: string): void => {
+  health.set(providerId, { consecutiveFailures: 0, openedAt: null });
+};
+
+/**
+ * Record that a provider's source failed to load
+ * @param providerId Provider id
+ * @param now Current time in milliseconds
+ */
+export const recordProviderFailure = (providerId: string, now: number = Date.now()): void => {
+  const entry = getHealth(providerId);
+  const wasTrial = getCircuitState(providerId, now) === 'half-open';
+  entry.consecutiveFailures += 1;
+  // A failed trial load reopens the circuit straight away
+  if (wasTrial || entry.consecutiveFailures >= FAILURE_THRESHOLD) {
+    entry.openedAt = now;
+  }
+};
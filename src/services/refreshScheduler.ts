@@ -0,0 +1,297 @@
+/**
+ * Single owner of video URL refreshes.
+ *
+ * Schedules a refresh shortly before the tracked URL expires, shares one
+ * in-flight request between concurrent callers, holds off while the tab is
+ * hidden or the browser is offline, and backs off with jitter after failures,
+ * giving up on timed refreshes after a run of them fails.
+ */
+
+import { getRefreshDelay, getRefreshDelayForExpiry, EXPIRY_REFRESH_LEAD_MS, RefreshedVideoUrl } from './videoService';
+
+/**
+ * What the scheduler is currently doing
+ */
+export type RefreshStatus = 'idle' | 'scheduled' | 'refreshing' | 'paused' | 'backoff' | 'failed';
+
+/**
+ * Snapshot of the scheduler exposed to the UI
+ */
+export interface RefreshSchedulerState {
+  status: RefreshStatus;
+  nextRefreshAt: Date | null;
+  lastRefreshedAt: Date | null;
+  failureCount: number;
+  lastError: Error | null;
+}
+
+/**
+ * Options for creating a refresh scheduler
+ */
+export interface RefreshSchedulerOptions {
+  /** Fetch a fresh URL for the one currently tracked */
+  refresh: (currentUrl: string) => Promise<RefreshedVideoUrl>;
+  /** Called with each fresh URL for the URL still being tracked */
+  onRefreshed?: (refreshed: RefreshedVideoUrl) => void;
+  /** How long before the expiry to refresh */
+  leadTime?: number;
+  /** Refresh URLs without an expiry signal this often (0 never refreshes them) */
+  fallbackInterval?: number;
+  /** First retry delay after a failure, doubled on each further failure */
+  baseBackoff?: number;
+  /** Longest retry delay after failures */
+  maxBackoff?: number;
+  /** Consecutive failures after which timed refreshes stop until a new URL or a manual refresh succeeds (0 never stops) */
+  maxFailures?: number;
+  /** Whether a URL may be refreshed on a timer; manual refreshes are always allowed (default: every URL) */
+  canSchedule?: (url: string) => boolean;
+  /** Called when timed refreshes stop after maxFailures consecutive failures */
+  onGiveUp?: (error: Error) => void;
+}
+
+/**
+ * Refresh scheduler returned by createRefreshScheduler
+ */
+export interface RefreshScheduler {
+  /** Start tracking a URL, rescheduling if it differs from the current one */
+  track: (url: string, expiresAt?: Date | null) => void;
+  /** Refresh immediately, sharing the request with any refresh already running */
+  refreshNow: () => Promise<RefreshedVideoUrl>;
+  getState: () => RefreshSchedulerState;
+  subscribe: (listener: (state: RefreshSchedulerState) => void) => () => void;
+  dispose: () => void;
+}
+
+/**
+ * State of a scheduler that hasn't tracked anything yet
+ */
+export const INITIAL_REFRESH_STATE: RefreshSchedulerState = {
+  status: 'idle',
+  nextRefreshAt: null,
+  lastRefreshedAt: null,
+  failureCount: 0,
+  lastError: null,
+};
+
+const DEFAULT_BASE_BACKOFF_MS = 5 * 1000;
+const DEFAULT_MAX_BACKOFF_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_FAILURES = 5;
+
+// Backoff delays vary by up to this fraction either way so clients don't retry in lockstep
+const BACKOFF_JITTER = 0.2;
+
+/**
+ * Work out the retry delay after a number of consecutive failures
+ * @param failureCount Consecutive failures so far
+ * @param base First retry delay
+ * @param max Longest retry delay
+ * @returns Delay in milliseconds, with jitter applied
+ */
+const getBackoffDelay = (failureCount: number, base: number, max: number): number => {
+  const delay = Math.min(base * 2 ** (failureCount - 1), max);
+  const jitter = 1 + (Math.random() * 2 - 1) * BACKOFF_JITTER;
+  return Math.round(delay * jitter);
+};
+
+/**
+ * Create a refresh scheduler
+ * @param options Scheduler options
+ * @returns The scheduler
+ */
+export const createRefreshScheduler = ({
+  refresh,
+  onRefreshed,
+  leadTime = EXPIRY_REFRESH_LEAD_MS,
+  fallbackInterval = 0,
+  baseBackoff = DEFAULT_BASE_BACKOFF_MS,
+  maxBackoff = DEFAULT_MAX_BACKOFF_MS,
+  maxFailures = DEFAULT_MAX_FAILURES,
+  canSchedule,
+  onGiveUp,
+}: RefreshSchedulerOptions): RefreshScheduler => {
+  let currentUrl: string | null = null;
+  let currentExpiry: Date | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<RefreshedVideoUrl> | null = null;
+  // Set when a refresh came due while paused, so it runs on resume
+  let isDue = false;
+  // Status to return to when the pause ends
+  let resumeStatus: RefreshStatus = 'idle';
+  let state: RefreshSchedulerState = INITIAL_REFRESH_STATE;
+  const listeners = new Set<(state: RefreshSchedulerState) => void>();
+
+  const setState = (changes: Partial<RefreshSchedulerState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const isPaused = () => document.hidden || !navigator.onLine;
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const scheduleIn = (delay: number, status: RefreshStatus) => {
+    clearTimer();
+    timer = setTimeout(onTimer, delay);
+    resumeStatus = status;
+    setState({ status: isPaused() ? 'paused' : status, nextRefreshAt: new Date(Date.now() + delay) });
+  };
+
+  // Schedule the next refresh from the tracked URL's expiry
+  const scheduleFromExpiry = () => {
+    if (!currentUrl) return;
+    const expiryDelay = currentExpiry
+      ? getRefreshDelayForExpiry(currentExpiry, leadTime)
+      : getRefreshDelay(currentUrl, leadTime) ?? (fallbackInterval > 0 ? fallbackInterval : null);
+    const delay = !canSchedule || canSchedule(currentUrl) ? expiryDelay : null;
+
+    if (delay === null) {
+      clearTimer();
+      resumeStatus = 'idle';
+      setState({ status: isPaused() ? 'paused' : 'idle', nextRefreshAt: null });
+      return;
+    }
+    scheduleIn(delay, 'scheduled');
+  };
+
+  const runScheduledRefresh = () => {
+    runRefresh(true).catch((error) => {
+      console.error("Scheduled video URL refresh failed:", error);
+    });
+  };
+
+  function onTimer() {
+    timer = null;
+    if (isPaused()) {
+      isDue = true;
+      if (state.status !== 'paused') {
+        resumeStatus = state.status;
+      }
+      setState({ status: 'paused' });
+      return;
+    }
+    runScheduledRefresh();
+  }
+
+  const handleResume = () => {
+    if (isPaused()) return;
+    if (isDue) {
+      isDue = false;
+      runScheduledRefresh();
+    } else if (state.status === 'paused') {
+      setState({ status: resumeStatus });
+    }
+  };
+
+  // Timers keep running while paused; a refresh that comes due waits for handleResume
+  const handlePause = () => {
+    if (!isPaused() || state.status === 'paused' || state.status === 'refreshing') return;
+    resumeStatus = state.status;
+    setState({ status: 'paused' });
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.hidden) {
+      handlePause();
+    } else {
+      handleResume();
+    }
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('online', handleResume);
+  window.addEventListener('offline', handlePause);
+
+  const runRefresh = (scheduled: boolean): Promise<RefreshedVideoUrl> => {
+    if (inFlight) return inFlight;
+    if (!currentUrl) {
+      return Promise.reject(new Error("No video URL to refresh"));
+    }
+
+    clearTimer();
+    isDue = false;
+    setState({ status: 'refreshing', nextRefreshAt: null });
+
+    const requestedUrl = currentUrl;
+    // track() may switch to another title while the request is running
+    const isStale = () => currentUrl !== requestedUrl;
+
+    inFlight = refresh(requestedUrl)
+      .then((refreshed) => {
+        if (isStale()) {
+          scheduleFromExpiry();
+          return refreshed;
+        }
+        currentUrl = refreshed.url;
+        currentExpiry = refreshed.expiresAt;
+        setState({ lastRefreshedAt: new Date(), failureCount: 0, lastError: null });
+        scheduleFromExpiry();
+        onRefreshed?.(refreshed);
+        return refreshed;
+      }, (error) => {
+        if (isStale()) {
+          scheduleFromExpiry();
+          throw error;
+        }
+        const failureCount = state.failureCount + 1;
+        const lastError = error instanceof Error ? error : new Error(String(error));
+        setState({ failureCount, lastError });
+        if (maxFailures > 0 && failureCount >= maxFailures) {
+          // Keep the failing URL until someone asks again instead of retrying for as long as the page is open
+          clearTimer();
+          resumeStatus = 'failed';
+          setState({ status: isPaused() ? 'paused' : 'failed', nextRefreshAt: null });
+          if (scheduled && failureCount === maxFailures) onGiveUp?.(lastError);
+        } else {
+          scheduleIn(getBackoffDelay(failureCount, baseBackoff, maxBackoff), 'backoff');
+        }
+        throw error;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+
+    return inFlight;
+  };
+
+  const refreshNow = () => runRefresh(false);
+
+  const track = (url: string, expiresAt: Date | null = null) => {
+    const sameExpiry = (expiresAt?.getTime() ?? null) === (currentExpiry?.getTime() ?? null);
+    if (url === currentUrl && sameExpiry) return;
+
+    currentUrl = url;
+    currentExpiry = expiresAt;
+    isDue = false;
+    // A refresh already running for the previous URL still completes, but a new title starts clean
+    if (!inFlight) {
+      setState({ failureCount: 0, lastError: null });
+      scheduleFromExpiry();
+    }
+  };
+
+  const dispose = () => {
+    clearTimer();
+    listeners.clear();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('online', handleResume);
+    window.removeEventListener('offline', handlePause);
+  };
+
+  return {
+    track,
+    refreshNow,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose,
+  };
+};
@@ -0,0 +1,316 @@
+/**
+ * Registry of video source providers.
+ *
+ * Every place that turns a title into a playable URL resolves through this
+ * registry, so deployments can point the player at their own hosts by
+ * registering providers (or setting VITE_SOURCE_PROVIDERS) instead of editing
+ * the components.
+ */
+
+/**
+ * How a provider's URLs are meant to be played
+ */
+export type SourceKind = 'iframe' | 'hls' | 'progressive';
+
+/**
+ * Interface for a video source provider
+ */
+export interface SourceProvider {
+  id: string;
+  name: string;
+  /** URL template using {imdbId} and/or {tmdbId} placeholders, plus an optional {startTime} in seconds */
+  urlTemplate: string;
+  /** URL template for TV episodes, which may also use {season} and {episode} */
+  tvUrlTemplate?: string;
+  kind: SourceKind;
+}
+
+/**
+ * Identifiers a provider template can be filled with
+ */
+export interface MediaIdentifiers {
+  imdbId?: string;
+  tmdbId?: number | string;
+  /** Season and episode numbers, set for TV episodes only */
+  season?: number;
+  episode?: number;
+}
+
+/**
+ * Values a provider template can be filled with
+ */
+export interface SourceTemplateValues extends MediaIdentifiers {
+  /** Playback position in seconds, for providers that accept one */
+  startTime?: number;
+}
+
+/**
+ * Result of matching a URL back to the provider that produced it
+ */
+export interface SourceProviderMatch {
+  provider: SourceProvider;
+  ids: MediaIdentifiers;
+}
+
+/**
+ * A provider together with the URL it resolved a title to
+ */
+export interface ResolvedSource {
+  provider: SourceProvider;
+  url: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{(imdbId|tmdbId|season|episode|startTime)\}/g;
+
+// Placeholders that fall back to a default instead of making the URL unbuildable
+const OPTIONAL_PLACEHOLDERS: Partial<Record<keyof SourceTemplateValues, string>> = {
+  startTime: '0',
+};
+
+const BUILT_IN_PROVIDERS: SourceProvider[] = [
+  {
+    id: 'jole340erun',
+    name: 'Jole340erun',
+    urlTemplate: 'https://jole340erun.com/play/{imdbId}',
+    kind: 'iframe',
+  },
+];
+
+const providers = new Map<string, SourceProvider>();
+let defaultProviderId = BUILT_IN_PROVIDERS[0].id;
+
+/**
+ * Register a source provider, replacing any existing provider with the same id
+ * @param provider The provider to register
+ * @param makeDefault Whether new titles should resolve through this provider
+ */
+export const registerSourceProvider = (provider: SourceProvider, makeDefault = false): void => {
+  if (!provider.id || !provider.urlTemplate) {
+    throw new Error("Source provider requires an id and a URL template");
+  }
+  providers.set(provider.id, provider);
+  if (makeDefault) {
+    defaultProviderId = provider.id;
+  }
+};
+
+/**
+ * Get all registered source providers in registration order
+ * @returns Array of providers
+ */
+export const getSourceProviders = (): SourceProvider[] => Array.from(providers.values());
+
+/**
+ * Get a registered source provider by id
+ * @param id Provider id
+ * @returns The provider or undefined if it is not registered
+ */
+export const getSourceProvider = (id: string): SourceProvider | undefined => providers.get(id);
+
+/**
+ * Get the provider new titles resolve through
+ * @returns The default provider
+ */
+export const getDefaultSourceProvider = (): SourceProvider => {
+  return providers.get(defaultProviderId) ?? getSourceProviders()[0];
+};
+
+/**
+ * Change the provider new titles resolve through
+ * @param id Id of a registered provider
+ */
+export const setDefaultSourceProvider = (id: string): void => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown source provider: ${id}`);
+  }
+  defaultProviderId = id;
+};
+
+/**
+ * Check whether template values address a TV episode rather than a movie
+ * @param values Template values
+ * @returns True when both season and episode are set
+ */
+export const isEpisode = (values: MediaIdentifiers): boolean =>
+  values.season !== undefined && values.episode !== undefined;
+
+/**
+ * Build a playable URL for a title from a provider template
+ * @param values Identifiers of the title and optional playback position
+ * @param provider Provider to resolve through (defaults to the default provider)
+ * @returns The URL, or null if the template needs an identifier that is missing
+ */
+export const buildSourceUrl = (
+  values: SourceTemplateValues,
+  provider: SourceProvider = getDefaultSourceProvider()
+): string | null => {
+  const template = isEpisode(values) ? provider.tvUrlTemplate : provider.urlTemplate;
+  if (!template) return null;
+  
+  let missing = false;
+  const url = template.replace(PLACEHOLDER_PATTERN, (_, name: keyof SourceTemplateValues) => {
+    const value = values[name];
+    if (value === undefined || value === null || value === '') {
+      const fallback = OPTIONAL_PLACEHOLDERS[name];
+      missing = missing || fallback === undefined;
+      return fallback ?? '';
+    }
+    return encodeURIComponent(String(value));
+  });
+  return missing ? null : url;
+};
+
+/**
+ * Resolve a title against every provider that can play it, in failover order:
+ * the default provider first, then the rest in registration order
+ * @param values Identifiers of the title
+ * @returns Providers and their URLs for the title
+ */
+export const resolveSourceChain = (values: SourceTemplateValues): ResolvedSource[] => {
+  const defaultProvider = getDefaultSourceProvider();
+  const ordered = [defaultProvider, ...getSourceProviders().filter((provider) => provider.id !== defaultProvider.id)];
+  return ordered.flatMap((provider) => {
+    const url = buildSourceUrl(values, provider);
+    return url ? [{ provider, url }] : [];
+  });
+};
+
+/**
+ * Convert a provider template into a regular expression capturing its placeholders
+ * @param template URL template
+ * @returns Regular expression matching URLs built from the template
+ */
+const templateToPattern = (template: string): RegExp => {
+  const parts = template.split(PLACEHOLDER_PATTERN);
+  // split() with a capture group alternates literal text and placeholder names
+  const source = parts
+    .map((part, index) =>
+      index % 2 === 1
+        ? `(?<${part}>[^/?#&]+)`
+        : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}(?:[?#&].*)?$`);
+};
+
+/**
+ * Find the provider whose template produced a URL, along with the identifiers in it
+ * @param url URL to match
+ * @returns The matching provider and identifiers, or null if no provider matches
+ */
+export const findSourceProviderForUrl = (url: string): SourceProviderMatch | null => {
+  for (const provider of providers.values()) {
+    // The episode template is the more specific of the two, so it is tried first
+    const templates = [provider.tvUrlTemplate, provider.urlTemplate].filter(Boolean);
+    for (const template of templates) {
+      const match = url.match(templateToPattern(template));
+      if (match) {
+        const groups = match.groups ?? {};
+        return {
+          provider,
+          ids: {
+            ...(groups.imdbId && { imdbId: decodeURIComponent(groups.imdbId) }),
+            ...(groups.tmdbId && { tmdbId: decodeURIComponent(groups.tmdbId) }),
+            ...(groups.season && { season: Number(groups.season) }),
+            ...(groups.episode && { episode: Number(groups.episode) }),
+          },
+        };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Rebuild a provider URL from its template, keeping query parameters the template
+ * doesn't set, such as the exp and sig a refreshed URL is signed with
+ * @param url URL produced by the provider, possibly refreshed since
+ * @param values Values to fill the template with
+ * @param provider Provider that produced the URL
+ * @returns The rebuilt URL, or null if the template needs an identifier that is missing
+ */
+const rebuildKeepingQuery = (url: string, values: SourceTemplateValues, provider: SourceProvider): string | null => {
+  const rebuilt = buildSourceUrl(values, provider);
+  if (!rebuilt) return null;
+  
+  try {
+    const merged = new URL(rebuilt);
+    const original = new URL(url);
+    // The template's own parameters (such as the start time) win over the old ones
+    original.searchParams.forEach((value, key) => {
+      if (!merged.searchParams.has(key)) merged.searchParams.append(key, value);
+    });
+    if (!merged.hash) merged.hash = original.hash;
+    return merged.toString();
+  } catch {
+    return rebuilt;
+  }
+};
+
+/**
+ * Get the canonical embed URL for a URL produced by a registered provider,
+ * normalised to its template while keeping any signature a refresh added
+ * @param url URL to normalise
+ * @returns The canonical URL, or the input if no iframe provider matches
+ */
+export const getCanonicalEmbedUrl = (url: string): string => {
+  const match = findSourceProviderForUrl(url);
+  if (!match || match.provider.kind !== 'iframe') {
+    return url;
+  }
+  return rebuildKeepingQuery(url, match.ids, match.provider) ?? url;
+};
+
+/**
+ * Get the embed URL for a URL produced by a registered provider, starting
+ * playback at the given position when the provider's template accepts one
+ * @param url URL to rebuild; its other query parameters are kept
+ * @param startTime Playback position in seconds
+ * @returns The embed URL, or the input if no iframe provider matches
+ */
+export const getEmbedUrlAt = (url: string, startTime: number): string => {
+  const match = findSourceProviderForUrl(url);
+  if (!match || match.provider.kind !== 'iframe') {
+    return url;
+  }
+  return rebuildKeepingQuery(url, { ...match.ids, startTime: Math.floor(startTime) }, match.provider) ?? url;
+};
+
+/**
+ * Check whether an embed URL can be reloaded without losing the viewer's place,
+ * i.e. its provider's template takes a {startTime}
+ * @param url Embed URL
+ * @returns True for iframe providers that accept a start time
+ */
+export const canResumeEmbed = (url: string): boolean => {
+  const match = findSourceProviderForUrl(url);
+  if (!match || match.provider.kind !== 'iframe') return false;
+  const template = isEpisode(match.ids) ? match.provider.tvUrlTemplate : match.provider.urlTemplate;
+  return Boolean(template?.includes('{startTime}'));
+};
+
+/**
+ * Load extra providers from build-time configuration
+ * VITE_SOURCE_PROVIDERS is a JSON array of SourceProvider objects and
+ * VITE_DEFAULT_SOURCE_PROVIDER selects the default by id.
+ */
+const loadConfiguredProviders = (): void => {
+  BUILT_IN_PROVIDERS.forEach((provider) => registerSourceProvider(provider));
+
+  const configured = import.meta.env.VITE_SOURCE_PROVIDERS;
+  if (configured) {
+    try {
+      const parsed: SourceProvider[] = JSON.parse(configured);
+      parsed.forEach((provider) => registerSourceProvider(provider));
+    } catch (error) {
+      console.error("Invalid VITE_SOURCE_PROVIDERS configuration:", error);
+    }
+  }
+
+  const configuredDefault = import.meta.env.VITE_DEFAULT_SOURCE_PROVIDER;
+  if (configuredDefault && providers.has(configuredDefault)) {
+    defaultProviderId = configuredDefault;
+  }
+};
+
+loadConfiguredProviders();
@@ -0,0 +1,75 @@
+/**
+ * Runtime configuration for TMDB access.
+ *
+ * Credentials never live in source. They come from build-time env
+ * (VITE_TMDB_*) and can be overridden by a config file fetched at runtime, so
+ * one build can be deployed with different keys. In proxy mode the client
+ * sends no credentials at all and a same-origin proxy adds them server-side.
+ */
+
+/**
+ * Interface for TMDB access configuration
+ */
+export interface TmdbConfig {
+  /** v3 API key, sent as the api_key query parameter */
+  apiKey?: string;
+  /** v4 read access token, sent as an Authorization: Bearer header */
+  readAccessToken?: string;
+  /** Base URL of a same-origin proxy that adds credentials itself */
+  proxyUrl?: string;
+}
+
+/**
+ * Shape of the runtime config file
+ */
+interface RuntimeConfigFile {
+  tmdb?: TmdbConfig;
+}
+
+// Runtime config file, served next to index.html by the deployment
+const RUNTIME_CONFIG_URL = import.meta.env.VITE_RUNTIME_CONFIG_URL || '/config.json';
+
+let configPromise: Promise<TmdbConfig> | null = null;
+
+/**
+ * Read the TMDB configuration baked in at build time
+ * @returns Configuration from VITE_TMDB_* env variables
+ */
+const getBuildTimeConfig = (): TmdbConfig => ({
+  apiKey: import.meta.env.VITE_TMDB_API_KEY || undefined,
+  readAccessToken: import.meta.env.VITE_TMDB_READ_ACCESS_TOKEN || undefined,
+  proxyUrl: import.meta.env.VITE_TMDB_PROXY_URL || undefined,
+});
+
+/**
+ * Fetch the runtime config file, if the deployment provides one
+ * @returns TMDB section of the config file, or an empty object
+ */
+const fetchRuntimeConfig = async (): Promise<TmdbConfig> => {
+  try {
+    const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+    if (!response.ok) return {};
+    const data: RuntimeConfigFile = await response.json();
+    return data.tmdb ?? {};
+  } catch {
+    // No config file (or not JSON) just means build-time config applies
+    return {};
+  }
+};
+
+/**
+ * Load the TMDB configuration once, merging the runtime config file over build-time env
+ * @returns Promise with the merged configuration
+ */
+export const loadTmdbConfig = (): Promise<TmdbConfig> => {
+  if (!configPromise) {
+    configPromise = fetchRuntimeConfig().then((runtimeConfig) => {
+      const merged = { ...getBuildTimeConfig() };
+      (Object.keys(runtimeConfig) as (keyof TmdbConfig)[]).forEach((key) => {
+        if (runtimeConfig[key]) merged[key] = runtimeConfig[key];
+      });
+      return merged;
+    });
+  }
+  return configPromise;
+};
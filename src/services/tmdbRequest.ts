@@ -0,0 +1,263 @@
+/**
+ * Shared request layer for the TMDB API.
+ *
+ * TMDB rate limits per IP and occasionally answers with 5xx under load, so
+ * every request goes through one queue that caps how many run at once,
+ * retries transient failures with exponential backoff, and pauses all
+ * requests when TMDB answers 429 until its Retry-After has passed.
+ */
+
+/**
+ * Category of a failed TMDB request
+ */
+export type TmdbErrorCode =
+  | 'network'
+  | 'auth'
+  | 'not-found'
+  | 'bad-request'
+  | 'rate-limited'
+  | 'server'
+  | 'invalid-response';
+
+/**
+ * Error thrown when a TMDB request fails
+ */
+export class TmdbError extends Error {
+  readonly code: TmdbErrorCode;
+  readonly status?: number;
+  /** How long TMDB asked us to wait before trying again, for rate-limited errors */
+  readonly retryAfterMs?: number;
+
+  constructor(code: TmdbErrorCode, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'TmdbError';
+    this.code = code;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Requests allowed in flight at once; TMDB allows about 20 connections per IP
+const MAX_CONCURRENT_REQUESTS = 6;
+
+// Retries after the first attempt for network errors, 429s and 5xx responses
+const MAX_RETRIES = 3;
+
+// Backoff before the first retry, doubled for each one after it
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8 * 1000;
+
+// A Retry-After longer than this is reported to the caller instead of waited out
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+// Statuses worth retrying: rate limiting and transient server trouble
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+
+// Set by a 429 so every queued request waits out the Retry-After, not just the one that got it
+let pausedUntil = 0;
+
+/**
+ * Wait for a given time, stopping early if the signal aborts
+ * @param ms Time to wait in milliseconds
+ * @param signal Optional signal to abort the wait
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Wait for a free request slot and take it
+ * @param signal Optional signal to stop waiting
+ */
+const acquireSlot = async (signal?: AbortSignal): Promise<void> => {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      const index = waitingRequests.indexOf(grant);
+      if (index !== -1) waitingRequests.splice(index, 1);
+      reject(signal?.reason);
+    };
+    // The releasing request hands its slot straight over, so the count doesn't change
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    waitingRequests.push(grant);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Give a request slot back, handing it to the next waiting request if there is one
+ */
+const releaseSlot = (): void => {
+  const next = waitingRequests.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequests--;
+  }
+};
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ * @param value Header value
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Exponential backoff with jitter, so parallel retries don't all land at once
+ * @param attempt Zero-based retry number
+ * @returns Delay in milliseconds
+ */
+const getBackoffDelay = (attempt: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+/**
+ * Turn a failed TMDB response into a typed error
+ * @param response Response with a non-OK status
+ * @param retryAfterMs Parsed Retry-After, for 429 responses
+ * @returns Error describing the failure
+ */
+const toTmdbError = (response: Response, retryAfterMs?: number): TmdbError => {
+  const { status } = response;
+  if (status === 401 || status === 403) {
+    return new TmdbError('auth', `TMDB rejected the credentials (${status})`, status);
+  }
+  if (status === 404) {
+    return new TmdbError('not-found', 'TMDB has no resource at this path', status);
+  }
+  if (status === 400 || status === 422) {
+    return new TmdbError('bad-request', `TMDB rejected the request parameters (${status})`, status);
+  }
+  if (status === 429) {
+    return new TmdbError('rate-limited', 'TMDB rate limit exceeded', status, retryAfterMs);
+  }
+  return new TmdbError('server', `TMDB API error: ${status}`, status);
+};
+
+/**
+ * Make one GET request to TMDB, waiting for a free slot and retrying transient failures
+ * @param url Full request URL
+ * @param headers Request headers
+ * @param signal Optional signal to abort the request, including any wait for a slot or retry
+ * @returns Promise with the parsed response
+ * @throws TmdbError when the request fails for good; aborts reject with the signal's reason
+ */
+export const tmdbRequest = async <T>(
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (pausedUntil > Date.now()) {
+      await wait(pausedUntil - Date.now(), signal);
+    }
+
+    await acquireSlot(signal);
+    let response: Response | undefined;
+    let fetchError: unknown;
+    try {
+      response = await fetch(url, { headers, signal });
+    } catch (error) {
+      fetchError = error;
+    } finally {
+      releaseSlot();
+    }
+
+    // The slot is already given back, so other requests keep running while this one backs off
+    if (!response) {
+      if (signal?.aborted) throw fetchError;
+      if (attempt < MAX_RETRIES) {
+        await wait(getBackoffDelay(attempt), signal);
+        continue;
+      }
+      throw new TmdbError('network', 'Could not reach TMDB');
+    }
+
+    if (response.ok) {
+      try {
+        return await response.json();
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new TmdbError('invalid-response', `TMDB sent a body that isn't valid JSON for ${url.split('?')[0]}`, response.status);
+      }
+    }
+
+    const retryAfterMs = response.status === 429
+      ? parseRetryAfter(response.headers.get('Retry-After')) ?? undefined
+      : undefined;
+
+    if (!RETRYABLE_STATUSES.has(response.status) || attempt >= MAX_RETRIES) {
+      throw toTmdbError(response, retryAfterMs);
+    }
+
+    if (retryAfterMs !== undefined) {
+      if (retryAfterMs > MAX_RETRY_AFTER_MS) {
+        throw toTmdbError(response, retryAfterMs);
+      }
+      pausedUntil = Math.max(pausedUntil, Date.now() + retryAfterMs);
+    } else {
+      await wait(getBackoffDelay(attempt), signal);
+    }
+  }
+};
+
+/**
+ * Describe a failed TMDB request in words a user can act on
+ * @param error Error thrown by a TMDB request
+ * @returns Message for the UI, or undefined if the error didn't come from TMDB
+ */
+export const getTmdbErrorMessage = (error: unknown): string | undefined => {
+  if (!(error instanceof TmdbError)) return undefined;
+  switch (error.code) {
+    case 'network':
+      return "Could not reach TMDB. Check your connection and try again.";
+    case 'auth':
+      return "TMDB rejected the API credentials. Check the TMDB configuration.";
+    case 'not-found':
+      return "TMDB has no record of this title.";
+    case 'bad-request':
+      return "TMDB couldn't handle this request. Check the search or filter values and try again.";
+    case 'rate-limited':
+      return error.retryAfterMs
+        ? `Too many requests to TMDB. Try again in ${Math.ceil(error.retryAfterMs / 1000)} seconds.`
+        : "Too many requests to TMDB. Try again in a moment.";
+    case 'server':
+      return "TMDB is having trouble right now. Try again later.";
+    case 'invalid-response':
+      return "TMDB sent data the app couldn't read.";
+  }
+};
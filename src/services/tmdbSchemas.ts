@@ -0,0 +1,446 @@
+/**
+ * Runtime schemas for the TMDB responses the app reads.
+ *
+ * TMDB documents most fields as always present, but in practice dates come
+ * back as empty strings, paths as null and whole list entries half filled.
+ * Each schema normalises a response into the types tmdbService exports:
+ * empty or malformed dates become null (with the year parsed alongside),
+ * missing text becomes an empty string, and list entries that can't be read
+ * are dropped instead of failing the whole response. Only a response
+ * missing what identifies it (e.g. a details payload without an id) fails.
+ */
+
+import { z } from 'zod';
+import type {
+  TMDBCastMember,
+  TMDBCrewMember,
+  TMDBEpisode,
+  TMDBFoundEpisode,
+  TMDBGenre,
+  TMDBImageConfiguration,
+  TMDBMovieDetails,
+  TMDBMovieFullDetails,
+  TMDBMovieResult,
+  TMDBMultiMovieResult,
+  TMDBMultiResult,
+  TMDBMultiTvResult,
+  TMDBPersonCredit,
+  TMDBPersonResult,
+  TMDBReleaseDates,
+  TMDBSearchResponse,
+  TMDBSearchType,
+  TMDBSeason,
+  TMDBSeasonSummary,
+  TMDBTranslation,
+  TMDBTvDetails,
+  TMDBTvResult,
+  TMDBVideo,
+  TMDBWatchProvider,
+  TMDBWatchProviders,
+} from './tmdbService';
+
+/**
+ * Schema that reads unknown input into a known output type
+ */
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * A type with every property, at any depth, made required
+ * Without strictNullChecks, which this project leaves off, zod marks every
+ * field of its output optional, so outputs are compared with the marks removed
+ */
+type Settled<T> = T extends (infer U)[]
+  ? Settled<U>[]
+  : T extends object
+    ? { [K in keyof T]-?: Settled<T[K]> }
+    : T;
+
+/**
+ * The schema itself when its output has exactly the fields and field types of T, otherwise never
+ */
+type Matching<S extends z.ZodTypeAny, T> = [Settled<z.output<S>>] extends [Settled<T>]
+  ? [Settled<T>] extends [Settled<z.output<S>>]
+    ? S
+    : never
+  : never;
+
+/**
+ * Give a schema the type it produces, checking at compile time that the schema's
+ * output really has that type's fields: a missing, extra, renamed or differently
+ * typed field makes the schema argument fail to type-check
+ * @returns Function taking the schema and returning it typed as Schema<T>
+ */
+export const defineSchema = <T>() => <S extends z.ZodTypeAny>(schema: S & Matching<S, T>): Schema<T> => schema;
+
+// TMDB dates are plain calendar dates
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Text that may be missing or null, read as an empty string
+const text = z.string().nullish().catch(null).transform((value) => value ?? '');
+
+// Optional text such as an image path, read as null when missing or empty
+const optionalText = z.string().nullish().catch(null).transform((value) => value || null);
+
+// Number that may be missing, read as null
+const optionalNumber = z.number().nullish().catch(null).transform((value) => value ?? null);
+
+// Number that may be missing, read as zero
+const count = z.number().nullish().catch(null).transform((value) => value ?? 0);
+
+// Calendar date, read as null when missing, empty or not a real date
+const date = optionalText.transform((value) =>
+  value && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? value : null
+);
+
+/**
+ * Get the year of a TMDB date
+ * @param value Normalised date, or null
+ * @returns The year, or null without a date
+ */
+const getYear = (value: string | null): number | null => (value ? Number(value.slice(0, 4)) : null);
+
+/**
+ * List that keeps the entries an item schema can read and drops the rest
+ * @param item Schema for one entry
+ * @returns Schema for the list; a missing list reads as empty
+ */
+export const lenientArray = <T>(item: Schema<T>): Schema<T[]> =>
+  z.array(z.unknown()).nullish().catch(null).transform((entries) =>
+    (entries ?? []).flatMap((entry) => {
+      const result = item.safeParse(entry);
+      return result.success ? [result.data] : [];
+    })
+  );
+
+/**
+ * Schema for a page of results
+ * @param item Schema for one result
+ * @returns Schema for the page
+ */
+export const searchResponseSchema = <T>(item: Schema<T>) =>
+  defineSchema<TMDBSearchResponse<T>>()(
+    z.object({
+      page: z.number().catch(1),
+      results: lenientArray(item),
+      total_results: count,
+      total_pages: count,
+    })
+  );
+
+/**
+ * Details with their translations appended, for filling in untranslated text
+ */
+type Translated<T> = T & { translations: TMDBTranslation[] };
+
+const translationSchema = defineSchema<TMDBTranslation>()(z.object({
+  iso_639_1: z.string(),
+  iso_3166_1: text,
+  data: z
+    .object({ title: text, name: text, overview: text, tagline: text })
+    .catch({ title: '', name: '', overview: '', tagline: '' }),
+}));
+
+// Appended translations, read as none when missing
+const translations = z
+  .object({ translations: lenientArray(translationSchema) })
+  .nullish()
+  .catch(null)
+  .transform((value) => value?.translations ?? []);
+
+// Fields shared by movie search results and movie details
+const movieShape = {
+  id: z.number(),
+  title: text,
+  poster_path: optionalText,
+  release_date: date,
+  overview: text,
+  // Only details responses carry it; the app fills it in on results once it has looked it up
+  imdb_id: z.string().optional().catch(undefined),
+};
+
+// Fields shared by TV series search results and series details
+const tvShape = {
+  id: z.number(),
+  name: text,
+  poster_path: optionalText,
+  first_air_date: date,
+  overview: text,
+};
+
+/**
+ * Add the release year to a movie
+ * @param movie Movie with a normalised release date
+ * @returns The movie with its release year
+ */
+const withReleaseYear = <T extends { release_date?: string | null }>(movie: T) => ({
+  ...movie,
+  release_year: getYear(movie.release_date),
+});
+
+/**
+ * Add the first air year to a series
+ * @param show Series with a normalised first air date
+ * @returns The series with its first air year
+ */
+const withFirstAirYear = <T extends { first_air_date?: string | null }>(show: T) => ({
+  ...show,
+  first_air_year: getYear(show.first_air_date),
+});
+
+/**
+ * Normalise movie details: add the release year and drop an empty IMDB ID
+ * @param details Movie details with a nullable IMDB ID
+ * @returns The movie details
+ */
+const normaliseMovieDetails = <T extends { release_date?: string | null; imdb_id?: string | null }>({
+  imdb_id,
+  ...details
+}: T) => ({
+  ...withReleaseYear(details),
+  ...(imdb_id ? { imdb_id } : {}),
+});
+
+export const movieResultSchema = defineSchema<TMDBMovieResult>()(z.object(movieShape).transform(withReleaseYear));
+
+// Translations are appended so a title or overview missing in the preferred language can fall back to English
+export const movieDetailsSchema = defineSchema<Translated<TMDBMovieDetails>>()(
+  z
+    .object({ ...movieShape, imdb_id: optionalText, translations })
+    .transform(normaliseMovieDetails)
+);
+
+export const genreSchema = defineSchema<TMDBGenre>()(z.object({
+  id: z.number(),
+  name: text,
+}));
+
+export const genreListSchema = defineSchema<TMDBGenre[]>()(
+  z
+    .object({ genres: lenientArray(genreSchema) })
+    .transform(({ genres }) => genres)
+);
+
+const castMemberSchema = defineSchema<TMDBCastMember>()(z.object({
+  id: z.number(),
+  credit_id: z.string(),
+  name: text,
+  character: text,
+  profile_path: optionalText,
+  // Unordered cast members go to the end of the billing
+  order: z.number().catch(Number.MAX_SAFE_INTEGER),
+}));
+
+const crewMemberSchema = defineSchema<TMDBCrewMember>()(z.object({
+  id: z.number(),
+  name: text,
+  job: text,
+  department: text,
+  profile_path: optionalText,
+}));
+
+const videoSchema = defineSchema<TMDBVideo>()(z.object({
+  id: z.string(),
+  key: z.string(),
+  name: text,
+  site: text,
+  type: text,
+  official: z.boolean().catch(false),
+}));
+
+const releaseDatesSchema = defineSchema<TMDBReleaseDates>()(z.object({
+  iso_3166_1: z.string(),
+  release_dates: lenientArray(
+    z.object({
+      certification: text,
+      release_date: text,
+      type: z.number().catch(0),
+    })
+  ),
+}));
+
+// Full details carry a tagline too, which falls back the same way
+export const movieFullDetailsSchema = defineSchema<Translated<TMDBMovieFullDetails>>()(
+  z
+    .object({
+      ...movieShape,
+      imdb_id: optionalText,
+      backdrop_path: optionalText,
+      tagline: text,
+      // TMDB reports an unknown runtime as 0
+      runtime: optionalNumber.transform((value) => value || null),
+      genres: lenientArray(genreSchema),
+      vote_average: count,
+      credits: z
+        .object({ cast: lenientArray(castMemberSchema), crew: lenientArray(crewMemberSchema) })
+        .catch({ cast: [], crew: [] }),
+      videos: z.object({ results: lenientArray(videoSchema) }).catch({ results: [] }),
+      release_dates: z.object({ results: lenientArray(releaseDatesSchema) }).catch({ results: [] }),
+      translations,
+    })
+    .transform(normaliseMovieDetails)
+);
+
+export const tvResultSchema = defineSchema<TMDBTvResult>()(z.object(tvShape).transform(withFirstAirYear));
+
+const seasonSummarySchema = defineSchema<TMDBSeasonSummary>()(z.object({
+  id: z.number(),
+  season_number: z.number(),
+  name: text,
+  episode_count: count,
+  air_date: date,
+  poster_path: optionalText,
+}));
+
+// As for movies, translations back up an untranslated name or overview
+export const tvDetailsSchema = defineSchema<Translated<TMDBTvDetails>>()(
+  z
+    .object({
+      ...tvShape,
+      number_of_seasons: count,
+      number_of_episodes: count,
+      seasons: lenientArray(seasonSummarySchema),
+      external_ids: z.object({ imdb_id: optionalText }).optional().catch(undefined),
+      translations,
+    })
+    .transform(withFirstAirYear)
+);
+
+// Fields of an episode, whether listed in a season or found by IMDB ID
+const episodeShape = {
+  id: z.number(),
+  name: text,
+  overview: text,
+  season_number: z.number(),
+  episode_number: z.number(),
+  air_date: date,
+  still_path: optionalText,
+  runtime: optionalNumber,
+};
+
+const episodeSchema = defineSchema<TMDBEpisode>()(z.object(episodeShape));
+
+const foundEpisodeSchema = defineSchema<TMDBFoundEpisode>()(z.object({ ...episodeShape, show_id: z.number() }));
+
+export const seasonSchema = defineSchema<TMDBSeason>()(z.object({
+  id: z.number(),
+  season_number: z.number(),
+  name: text,
+  overview: text,
+  episodes: lenientArray(episodeSchema),
+}));
+
+/**
+ * Interface for TMDB find response
+ */
+interface TMDBFindResponse {
+  movie_results: TMDBMovieResult[];
+  tv_results: TMDBTvResult[];
+  tv_episode_results: TMDBFoundEpisode[];
+}
+
+export const findResponseSchema = defineSchema<TMDBFindResponse>()(z.object({
+  movie_results: lenientArray(movieResultSchema),
+  tv_results: lenientArray(tvResultSchema),
+  tv_episode_results: lenientArray(foundEpisodeSchema),
+}));
+
+// Movie and series results tagged with their media type, as multi search and credits return them
+const multiMovieSchema = z.object({ ...movieShape, media_type: z.literal('movie') }).transform(withReleaseYear);
+const multiTvSchema = z.object({ ...tvShape, media_type: z.literal('tv') }).transform(withFirstAirYear);
+
+/**
+ * A movie or series tagged with its media type, as watch history stores them
+ */
+export const titleResultSchema = defineSchema<TMDBMultiMovieResult | TMDBMultiTvResult>()(
+  z.union([multiMovieSchema, multiTvSchema])
+);
+
+const personResultShape = {
+  id: z.number(),
+  name: text,
+  profile_path: optionalText,
+  known_for_department: text,
+  known_for: lenientArray(titleResultSchema).optional(),
+};
+
+export const personResultSchema = defineSchema<TMDBPersonResult>()(z.object(personResultShape));
+
+// Unknown media types, such as collections, fail every option and are dropped from lists
+export const multiResultSchema = defineSchema<TMDBMultiResult>()(z.union([
+  multiMovieSchema,
+  multiTvSchema,
+  z.object({ ...personResultShape, media_type: z.literal('person') }),
+]));
+
+/**
+ * Result schemas for each search endpoint; movie and TV searches are tagged so every search yields multi results
+ */
+export const searchResultSchemas: Record<TMDBSearchType, Schema<TMDBMultiResult>> = {
+  multi: multiResultSchema,
+  movie: movieResultSchema.transform((movie) => ({ ...movie, media_type: 'movie' as const })),
+  tv: tvResultSchema.transform((show) => ({ ...show, media_type: 'tv' as const })),
+};
+
+// A credit's role, whichever side of the camera it is on
+const creditRoleShape = {
+  character: z.string().optional().catch(undefined),
+  job: z.string().optional().catch(undefined),
+};
+
+const personCreditSchema = defineSchema<TMDBPersonCredit>()(z.union([
+  z.object({ ...movieShape, ...creditRoleShape, media_type: z.literal('movie') }).transform(withReleaseYear),
+  z.object({ ...tvShape, ...creditRoleShape, media_type: z.literal('tv') }).transform(withFirstAirYear),
+]));
+
+/**
+ * Interface for TMDB person combined credits response
+ */
+interface TMDBPersonCredits {
+  cast: TMDBPersonCredit[];
+  crew: TMDBPersonCredit[];
+}
+
+export const personCreditsSchema = defineSchema<TMDBPersonCredits>()(z.object({
+  cast: lenientArray(personCreditSchema),
+  crew: lenientArray(personCreditSchema),
+}));
+
+const watchProviderSchema = defineSchema<TMDBWatchProvider>()(z.object({
+  provider_id: z.number(),
+  provider_name: z.string(),
+  logo_path: optionalText,
+  display_priority: count,
+}));
+
+// TMDB lists providers in no particular order; display_priority is the order it shows them in
+const providerList = lenientArray(watchProviderSchema).transform((providers) =>
+  [...providers].sort((a, b) => a.display_priority - b.display_priority)
+);
+
+/**
+ * Interface for TMDB watch providers response, keyed by region
+ */
+interface TMDBWatchProvidersResponse {
+  results: Record<string, TMDBWatchProviders>;
+}
+
+export const watchProvidersSchema = defineSchema<TMDBWatchProvidersResponse>()(z.object({
+  results: z
+    .record(z.object({ link: optionalText, flatrate: providerList, rent: providerList, buy: providerList }))
+    .catch({}),
+}));
+
+export const configurationSchema = defineSchema<TMDBImageConfiguration>()(
+  z
+    .object({
+      images: z.object({
+        secure_base_url: z.string().url(),
+        poster_sizes: z.array(z.string()),
+        backdrop_sizes: z.array(z.string()),
+        profile_sizes: z.array(z.string()),
+        logo_sizes: z.array(z.string()),
+        still_sizes: z.array(z.string()),
+      }),
+    })
+    .transform(({ images }) => images)
+);
@@ -3,9 +3,40 @@
  * Service for interacting with The Movie Database (TMDB) API
  */
 
-const TMDB_API_KEY = 'e3453ddae36b6a33e4f5480ccb0e49dc';
+import { loadTmdbConfig } from './tmdbConfig';
+import { getLanguageCode, getLocalePreference } from './localePreference';
+import { tmdbRequest, TmdbError } from './tmdbRequest';
+import {
+  configurationSchema,
+  findResponseSchema,
+  genreListSchema,
+  movieDetailsSchema,
+  movieFullDetailsSchema,
+  movieResultSchema,
+  personCreditsSchema,
+  Schema,
+  searchResponseSchema,
+  searchResultSchemas,
+  seasonSchema,
+  tvDetailsSchema,
+  tvResultSchema,
+  watchProvidersSchema,
+} from './tmdbSchemas';
+
 const TMDB_API_BASE_URL = 'https://api.themoviedb.org/3';
 
+// Language untranslated text falls back to
+const FALLBACK_LANGUAGE = 'en-US';
+
+// TMDB refuses search and discover pages beyond this, whatever total_pages says
+const MAX_SEARCH_PAGES = 500;
+
+// How far back a regional "trending" list looks for releases and airings
+const REGIONAL_RECENT_DAYS: Record<TMDBTrendingWindow, number> = {
+  day: 30,
+  week: 90,
+};
+
 /**
  * Interface for TMDB movie search results
  */
@@ -13,7 +44,9 @@ export interface TMDBMovieResult {
   id: number;
   title: string;
   poster_path: string | null;
-  release_date: string;
+  /** YYYY-MM-DD, or null when TMDB has no valid release date */
+  release_date: string | null;
+  release_year: number | null;
   overview: string;
   imdb_id?: string;
 }
@@ -21,9 +54,9 @@ export interface TMDBMovieResult {
 /**
  * Interface for TMDB search response
  */
-interface TMDBSearchResponse {
+export interface TMDBSearchResponse<T = TMDBMovieResult> {
   page: number;
-  results: TMDBMovieResult[];
+  results: T[];
   total_results: number;
   total_pages: number;
 }
@@ -31,40 +64,634 @@ interface TMDBSearchResponse {
 /**
  * Interface for TMDB movie details response
  */
-interface TMDBMovieDetails extends TMDBMovieResult {
-  imdb_id: string;
+export interface TMDBMovieDetails extends TMDBMovieResult {
+  /** Missing for titles IMDB doesn't list */
+  imdb_id?: string;
 }
 
 /**
- * Get trending movies, optionally filtered by region
- * @param region ISO 3166-1 region code (e.g., 'in' for India)
- * @returns Promise with trending movies
+ * Interface for a TMDB genre
  */
-export const getTrendingMovies = async (region?: string): Promise<TMDBMovieResult[]> => {
-  try {
-    let url = `${TMDB_API_BASE_URL}/trending/movie/day?api_key=${TMDB_API_KEY}`;
-    
-    // Add region parameter if provided
-    if (region) {
-      url += `&region=${region}`;
+export interface TMDBGenre {
+  id: number;
+  name: string;
+}
+
+/**
+ * Interface for a cast member in TMDB credits
+ */
+export interface TMDBCastMember {
+  id: number;
+  credit_id: string;
+  name: string;
+  character: string;
+  profile_path: string | null;
+  order: number;
+}
+
+/**
+ * Interface for a crew member in TMDB credits
+ */
+export interface TMDBCrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+  profile_path: string | null;
+}
+
+/**
+ * Interface for a video (trailer, teaser, clip...) attached to a TMDB title
+ */
+export interface TMDBVideo {
+  id: string;
+  key: string;
+  name: string;
+  site: string;
+  type: string;
+  official: boolean;
+}
+
+/**
+ * Interface for a title's release dates in one country
+ */
+export interface TMDBReleaseDates {
+  iso_3166_1: string;
+  release_dates: {
+    certification: string;
+    release_date: string;
+    type: number;
+  }[];
+}
+
+/**
+ * Interface for TMDB movie details with credits, videos and release dates appended
+ */
+export interface TMDBMovieFullDetails extends TMDBMovieDetails {
+  backdrop_path: string | null;
+  tagline: string;
+  runtime: number | null;
+  genres: TMDBGenre[];
+  vote_average: number;
+  credits: {
+    cast: TMDBCastMember[];
+    crew: TMDBCrewMember[];
+  };
+  videos: {
+    results: TMDBVideo[];
+  };
+  release_dates: {
+    results: TMDBReleaseDates[];
+  };
+}
+
+/**
+ * Interface for one language's translation of a title
+ */
+export interface TMDBTranslation {
+  iso_639_1: string;
+  iso_3166_1: string;
+  data: {
+    title: string;
+    name: string;
+    overview: string;
+    tagline: string;
+  };
+}
+
+/**
+ * Interface for TMDB TV series search results
+ */
+export interface TMDBTvResult {
+  id: number;
+  name: string;
+  poster_path: string | null;
+  /** YYYY-MM-DD, or null when TMDB has no valid air date */
+  first_air_date: string | null;
+  first_air_year: number | null;
+  overview: string;
+}
+
+/**
+ * Interface for a season summary within TMDB series details
+ */
+export interface TMDBSeasonSummary {
+  id: number;
+  season_number: number;
+  name: string;
+  episode_count: number;
+  air_date: string | null;
+  poster_path: string | null;
+}
+
+/**
+ * Interface for TMDB TV series details response
+ */
+export interface TMDBTvDetails extends TMDBTvResult {
+  number_of_seasons: number;
+  number_of_episodes: number;
+  seasons: TMDBSeasonSummary[];
+  external_ids?: {
+    imdb_id: string | null;
+  };
+}
+
+/**
+ * Interface for a TMDB TV episode
+ */
+export interface TMDBEpisode {
+  id: number;
+  name: string;
+  overview: string;
+  season_number: number;
+  episode_number: number;
+  air_date: string | null;
+  still_path: string | null;
+  runtime: number | null;
+}
+
+/**
+ * Interface for a TMDB episode found by external ID, which also names its series
+ */
+export interface TMDBFoundEpisode extends TMDBEpisode {
+  show_id: number;
+}
+
+/**
+ * What an IMDB ID refers to on TMDB: a movie, a series or a single episode
+ */
+export type TMDBImdbMatch =
+  | { media_type: 'movie'; movie: TMDBMovieResult }
+  | { media_type: 'tv'; show: TMDBTvResult }
+  | { media_type: 'episode'; episode: TMDBFoundEpisode };
+
+/**
+ * Interface for TMDB season details response
+ */
+export interface TMDBSeason {
+  id: number;
+  season_number: number;
+  name: string;
+  overview: string;
+  episodes: TMDBEpisode[];
+}
+
+/**
+ * Interface for TMDB person search results
+ */
+export interface TMDBPersonResult {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string;
+  known_for?: (TMDBMultiMovieResult | TMDBMultiTvResult)[];
+}
+
+/**
+ * Movie, TV series and person results as returned by multi search, tagged with their media type
+ */
+export type TMDBMultiMovieResult = TMDBMovieResult & { media_type: 'movie' };
+export type TMDBMultiTvResult = TMDBTvResult & { media_type: 'tv' };
+export type TMDBMultiPersonResult = TMDBPersonResult & { media_type: 'person' };
+
+/**
+ * Interface for a TMDB multi search result
+ */
+export type TMDBMultiResult = TMDBMultiMovieResult | TMDBMultiTvResult | TMDBMultiPersonResult;
+
+/**
+ * Which TMDB search endpoint to use: everything, movies only or TV series only
+ */
+export type TMDBSearchType = 'multi' | 'movie' | 'tv';
+
+/**
+ * What each search type covers, for placeholders and messages
+ */
+export const SEARCH_TYPE_LABELS: Record<TMDBSearchType, string> = {
+  multi: 'movies, TV shows or people',
+  movie: 'movies',
+  tv: 'TV shows',
+};
+
+/**
+ * Which titles a trending list covers
+ */
+export type TMDBTrendingMediaType = 'movie' | 'tv' | 'all';
+
+/**
+ * Period a trending list is measured over
+ */
+export type TMDBTrendingWindow = 'day' | 'week';
+
+/**
+ * Options for a trending list; unset fields use today's worldwide trending movies
+ */
+export interface TrendingOptions {
+  mediaType?: TMDBTrendingMediaType;
+  timeWindow?: TMDBTrendingWindow;
+  /** ISO 3166-1 region code, e.g. 'in' for India */
+  region?: string;
+}
+
+/**
+ * A trending list, with the region it really covers
+ */
+export interface TMDBTrendingList {
+  results: TMDBMultiResult[];
+  mediaType: TMDBTrendingMediaType;
+  timeWindow: TMDBTrendingWindow;
+  /** Upper-case region code the titles are specific to, or null for the worldwide list */
+  region: string | null;
+  /** A region was asked for but had no titles, so the worldwide list was used instead */
+  isRegionFallback: boolean;
+}
+
+/**
+ * TMDB's curated movie lists
+ */
+export type TMDBMovieListType = 'popular' | 'top_rated' | 'now_playing' | 'upcoming';
+
+/**
+ * Sort orders accepted by TMDB movie discovery
+ */
+export type TMDBDiscoverSortBy =
+  | 'popularity.desc'
+  | 'popularity.asc'
+  | 'vote_average.desc'
+  | 'vote_average.asc'
+  | 'primary_release_date.desc'
+  | 'primary_release_date.asc'
+  | 'revenue.desc'
+  | 'original_title.asc';
+
+/**
+ * Filters for TMDB movie discovery; unset fields don't filter
+ */
+export interface DiscoverMovieFilters {
+  /** Movies must have all of these genres */
+  genreIds?: number[];
+  /** Earliest primary release year */
+  yearFrom?: number;
+  /** Latest primary release year */
+  yearTo?: number;
+  /** ISO 639-1 code of the original language, e.g. 'hi' */
+  originalLanguage?: string;
+  /** Minimum average rating out of 10 */
+  minVoteAverage?: number;
+  /** Minimum number of votes, so a handful of ratings can't top the list */
+  minVoteCount?: number;
+  /** Minimum runtime in minutes */
+  minRuntime?: number;
+  /** Maximum runtime in minutes */
+  maxRuntime?: number;
+  sortBy?: TMDBDiscoverSortBy;
+}
+
+/**
+ * Why a discovery filter can't be used, by the filter it belongs to
+ */
+export type DiscoverFilterErrors = Partial<Record<keyof DiscoverMovieFilters, string>>;
+
+// The earliest film TMDB lists is from 1874; announced films are listed a few years ahead
+const DISCOVER_MIN_YEAR = 1874;
+const DISCOVER_YEARS_AHEAD = 5;
+
+/**
+ * Get the latest release year discovery accepts
+ * @returns A few years after the current one
+ */
+const getDiscoverMaxYear = (): number => new Date().getFullYear() + DISCOVER_YEARS_AHEAD;
+
+/**
+ * Check discovery filters for years TMDB can't have and ranges that are the wrong way round
+ * @param filters Discovery filters
+ * @returns Errors by filter; empty when the filters are usable
+ */
+export const getDiscoverFilterErrors = (filters: DiscoverMovieFilters): DiscoverFilterErrors => {
+  const errors: DiscoverFilterErrors = {};
+  const maxYear = getDiscoverMaxYear();
+  const isValidYear = (year: number) => Number.isInteger(year) && year >= DISCOVER_MIN_YEAR && year <= maxYear;
+  (['yearFrom', 'yearTo'] as const).forEach((key) => {
+    const year = filters[key];
+    if (year !== undefined && !isValidYear(year)) {
+      errors[key] = `Enter a year from ${DISCOVER_MIN_YEAR} to ${maxYear}`;
     }
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.status}`);
+  });
+  if (
+    !errors.yearFrom && !errors.yearTo &&
+    filters.yearFrom !== undefined && filters.yearTo !== undefined &&
+    filters.yearFrom > filters.yearTo
+  ) {
+    errors.yearTo = 'Must not be before the start year';
+  }
+  if (filters.minRuntime !== undefined && filters.maxRuntime !== undefined && filters.minRuntime > filters.maxRuntime) {
+    errors.maxRuntime = 'Must not be less than the minimum';
+  }
+  return errors;
+};
+
+/**
+ * Interface for a person's movie or TV credit
+ */
+export type TMDBPersonCredit = (TMDBMultiMovieResult | TMDBMultiTvResult) & {
+  character?: string;
+  job?: string;
+};
+
+/**
+ * Interface for a streaming service, rental store or shop offering a title
+ */
+export interface TMDBWatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+  display_priority: number;
+}
+
+/**
+ * Interface for where a title can be watched in one region, each list in TMDB's display order
+ */
+export interface TMDBWatchProviders {
+  /** TMDB's watch page for the title in the region, which links through to each provider */
+  link: string | null;
+  flatrate: TMDBWatchProvider[];
+  rent: TMDBWatchProvider[];
+  buy: TMDBWatchProvider[];
+}
+
+/**
+ * Make a GET request to the TMDB API with the configured credentials
+ * Uses the proxy when one is configured, otherwise a v4 bearer token, otherwise a v3 API key
+ * Requests are made in the preferred language and region unless params set others
+ * @param path API path, e.g. /movie/550
+ * @param schema Schema the response is validated and normalised with
+ * @param params Query parameters
+ * @param signal Aborts the request, e.g. when a query is no longer needed
+ * @returns Promise with the normalised response
+ */
+const tmdbFetch = async <T>(
+  path: string,
+  schema: Schema<T>,
+  params: Record<string, string | undefined> = {},
+  signal?: AbortSignal
+): Promise<T> => {
+  const config = await loadTmdbConfig();
+  const url = new URL(`${config.proxyUrl || TMDB_API_BASE_URL}${path}`, window.location.origin);
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  
+  if (!config.proxyUrl) {
+    if (config.readAccessToken) {
+      headers.Authorization = `Bearer ${config.readAccessToken}`;
+    } else if (config.apiKey) {
+      url.searchParams.set('api_key', config.apiKey);
+    } else {
+      throw new TmdbError('auth', 'TMDB credentials are not configured');
     }
-    
-    const data: TMDBSearchResponse = await response.json();
-    
-    // If region is specified but we got no region-specific results, try again without region filter
-    if (region && data.results.length === 0) {
-      return getTrendingMovies();
+  }
+  
+  const { language, region } = getLocalePreference();
+  Object.entries({ language, region, ...params }).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.set(key, value);
+  });
+  
+  const data = await tmdbRequest<unknown>(url.toString(), headers, signal);
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new TmdbError('invalid-response', `Unexpected TMDB response for ${path}: ${result.error.message}`);
+  }
+  return result.data;
+};
+
+/**
+ * Fill text TMDB has no translation for in the preferred language from the English translation
+ * @param details Title details in the preferred language
+ * @param translations The title's translations
+ * @param fields Text fields to fill when empty
+ * @returns The details with empty fields filled where English has them
+ */
+const withEnglishFallback = <T extends object>(
+  details: T,
+  translations: TMDBTranslation[],
+  fields: (keyof T & keyof TMDBTranslation['data'])[]
+): T => {
+  const english = translations.find((translation) => translation.iso_639_1 === 'en' && translation.iso_3166_1 === 'US')
+    ?? translations.find((translation) => translation.iso_639_1 === 'en');
+  if (!english) return details;
+  const filled = { ...details };
+  fields.forEach((field) => {
+    if (!filled[field] && english.data[field]) {
+      filled[field] = english.data[field] as T[typeof field];
+    }
+  });
+  return filled;
+};
+
+// Text fields of list results that are blank when TMDB has no translation for them
+const RESULT_TEXT_FIELDS = ['title', 'name', 'overview'] as const;
+
+/**
+ * A movie, series or person as list endpoints return them
+ */
+type ListedResult = { id: number; media_type?: string } & Partial<Record<typeof RESULT_TEXT_FIELDS[number], string>>;
+
+/**
+ * Tell movies and series with the same ID apart when matching results across languages
+ * @param result List result
+ * @returns Key unique within a list
+ */
+const getListedResultKey = (result: ListedResult): string => `${result.media_type ?? ''}:${result.id}`;
+
+/**
+ * Check whether a list result is missing text in the preferred language
+ * @param result List result
+ * @returns True if a title, name or overview it has is blank
+ */
+const isUntranslatedResult = (result: ListedResult): boolean =>
+  RESULT_TEXT_FIELDS.some((field) => field in result && !result[field]);
+
+/**
+ * Check whether a list needs its blank text filled from English
+ * @param results Results in the preferred language
+ * @returns True if the preferred language isn't English and any result is missing text
+ */
+const needsEnglishResults = (results: ListedResult[]): boolean =>
+  getLanguageCode(getLocalePreference().language) !== 'en' && results.some(isUntranslatedResult);
+
+/**
+ * Fill blank text in list results from the same results in English
+ * @param results Results in the preferred language
+ * @param englishResults The same list fetched in English
+ * @returns The results with blank fields filled where English has them
+ */
+const fillFromEnglishResults = <R extends ListedResult>(results: R[], englishResults: ListedResult[]): R[] => {
+  const english = new Map(englishResults.map((result) => [getListedResultKey(result), result]));
+  return results.map((result) => {
+    const match = english.get(getListedResultKey(result));
+    if (!match || !isUntranslatedResult(result)) return result;
+    const filled = { ...result };
+    RESULT_TEXT_FIELDS.forEach((field) => {
+      if (field in filled && !filled[field] && match[field]) {
+        filled[field] = match[field] as R[typeof field];
+      }
+    });
+    return filled;
+  });
+};
+
+/**
+ * Make a request for a list of results, filling text missing in the preferred language from English
+ * List endpoints can't append translations the way details do, so when a result comes back
+ * blank the same list is requested once more in English and matched up by ID
+ * @param path API path, e.g. /search/movie
+ * @param schema Schema the response is validated and normalised with
+ * @param params Query parameters
+ * @param signal Aborts the request
+ * @returns Promise with the normalised response
+ */
+const tmdbFetchResults = async <T extends { results: ListedResult[] }>(
+  path: string,
+  schema: Schema<T>,
+  params: Record<string, string | undefined> = {},
+  signal?: AbortSignal
+): Promise<T> => {
+  const data = await tmdbFetch(path, schema, params, signal);
+  if (!needsEnglishResults(data.results)) return data;
+  const english = await tmdbFetch(path, schema, { ...params, language: FALLBACK_LANGUAGE }, signal);
+  return { ...data, results: fillFromEnglishResults(data.results, english.results) };
+};
+
+/**
+ * Get TMDB's worldwide trending list
+ * @param mediaType Movies, TV series or both
+ * @param timeWindow Trending over the last day or week
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the trending titles
+ */
+const getGlobalTrending = async (
+  mediaType: TMDBTrendingMediaType,
+  timeWindow: TMDBTrendingWindow,
+  signal?: AbortSignal
+): Promise<TMDBMultiResult[]> => {
+  const schema = searchResultSchemas[mediaType === 'all' ? 'multi' : mediaType];
+  const data = await tmdbFetchResults(`/trending/${mediaType}/${timeWindow}`, searchResponseSchema(schema), {}, signal);
+  return data.results;
+};
+
+/**
+ * Get the date a number of days ago, as TMDB expects it in date filters
+ * @param days Days before today
+ * @returns YYYY-MM-DD date
+ */
+const getDateDaysAgo = (days: number): string =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Get movies popular in a region: recent releases made there, then whatever its cinemas are showing
+ * @param region ISO 3166-1 region code, upper case
+ * @param timeWindow How recent the releases must be
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the movies
+ */
+const getRegionalMovies = async (
+  region: string,
+  timeWindow: TMDBTrendingWindow,
+  signal?: AbortSignal
+): Promise<TMDBMultiResult[]> => {
+  const schema = searchResponseSchema(searchResultSchemas.movie);
+  const [madeThere, nowPlaying] = await Promise.all([
+    tmdbFetchResults('/discover/movie', schema, {
+      with_origin_country: region,
+      sort_by: 'popularity.desc',
+      include_adult: 'false',
+      'primary_release_date.gte': getDateDaysAgo(REGIONAL_RECENT_DAYS[timeWindow]),
+      'primary_release_date.lte': getDateDaysAgo(0),
+    }, signal),
+    tmdbFetchResults('/movie/now_playing', schema, { region }, signal),
+  ]);
+  const movies = new Map<number, TMDBMultiResult>();
+  [...madeThere.results, ...nowPlaying.results].forEach((movie) => {
+    if (!movies.has(movie.id)) movies.set(movie.id, movie);
+  });
+  return [...movies.values()];
+};
+
+/**
+ * Get TV series made in a region that have recently aired, most popular first
+ * @param region ISO 3166-1 region code, upper case
+ * @param timeWindow How recently an episode must have aired
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the series
+ */
+const getRegionalTv = async (
+  region: string,
+  timeWindow: TMDBTrendingWindow,
+  signal?: AbortSignal
+): Promise<TMDBMultiResult[]> => {
+  const data = await tmdbFetchResults('/discover/tv', searchResponseSchema(searchResultSchemas.tv), {
+    with_origin_country: region,
+    sort_by: 'popularity.desc',
+    include_adult: 'false',
+    'air_date.gte': getDateDaysAgo(REGIONAL_RECENT_DAYS[timeWindow]),
+    'air_date.lte': getDateDaysAgo(0),
+  }, signal);
+  return data.results;
+};
+
+/**
+ * Get trending titles, worldwide or for one region
+ * TMDB's trending endpoint is worldwide only, so a region gets a list built from discovery
+ * (titles made there) and, for movies, what its cinemas are showing. If the region has
+ * nothing, the worldwide list is returned and the result says so.
+ * @param options Media type, time window and optional region
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the titles and the region they actually cover
+ */
+export const getTrending = async (
+  { mediaType = 'movie', timeWindow = 'day', region }: TrendingOptions = {},
+  signal?: AbortSignal
+): Promise<TMDBTrendingList> => {
+  try {
+    if (region) {
+      const regionCode = region.toUpperCase();
+      const [movies, shows] = await Promise.all([
+        mediaType !== 'tv' ? getRegionalMovies(regionCode, timeWindow, signal) : [],
+        mediaType !== 'movie' ? getRegionalTv(regionCode, timeWindow, signal) : [],
+      ]);
+      // Alternate movies and series so a mixed list doesn't open with one kind only
+      const results = Array.from({ length: Math.max(movies.length, shows.length) }, (_, index) =>
+        [movies[index], shows[index]].filter(Boolean)
+      ).flat();
+      if (results.length > 0) {
+        return { results, mediaType, timeWindow, region: regionCode, isRegionFallback: false };
+      }
     }
     
-    return data.results;
+    const results = await getGlobalTrending(mediaType, timeWindow, signal);
+    return { results, mediaType, timeWindow, region: null, isRegionFallback: Boolean(region) };
   } catch (error) {
-    console.error('Error getting trending movies:', error);
+    console.error('Error getting trending titles:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get one page of a curated movie list from TMDB API
+ * @param list Which list to get
+ * @param page Page number, starting at 1
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the page of movies, tagged as multi results
+ */
+export const getMovieList = async (
+  list: TMDBMovieListType,
+  page: number = 1,
+  signal?: AbortSignal
+): Promise<TMDBSearchResponse<TMDBMultiResult>> => {
+  try {
+    return await tmdbFetchResults(`/movie/${list}`, searchResponseSchema(searchResultSchemas.movie), {
+      page: String(page),
+    }, signal);
+  } catch (error) {
+    console.error(`Error getting ${list} movies:`, error);
     throw error;
   }
 };
@@ -78,14 +705,10 @@ export const searchMovies = async (query: string): Promise<TMDBMovieResult[]> =>
   if (!query || query.length < 2) return [];
   
   try {
-    const url = `${TMDB_API_BASE_URL}/search/movie?api_key=${TMDB_API_KEY}&query=${encodeURIComponent(query)}&include_adult=false`;
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.status}`);
-    }
-    
-    const data: TMDBSearchResponse = await response.json();
+    const data = await tmdbFetchResults('/search/movie', searchResponseSchema(movieResultSchema), {
+      query,
+      include_adult: 'false',
+    });
     return data.results;
   } catch (error) {
     console.error('Error searching TMDB:', error);
@@ -93,28 +716,117 @@ export const searchMovies = async (query: string): Promise<TMDBMovieResult[]> =>
   }
 };
 
+/**
+ * Discover movies matching a set of filters from TMDB API
+ * @param filters Discovery filters
+ * @param page Page number, starting at 1
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the page of movies and the total result and page counts
+ */
+export const discoverMovies = async (
+  filters: DiscoverMovieFilters = {},
+  page: number = 1,
+  signal?: AbortSignal
+): Promise<TMDBSearchResponse> => {
+  const toParam = (value: number | undefined) => (value !== undefined ? String(value) : undefined);
+  
+  try {
+    const data = await tmdbFetchResults('/discover/movie', searchResponseSchema(movieResultSchema), {
+      page: String(page),
+      include_adult: 'false',
+      sort_by: filters.sortBy ?? 'popularity.desc',
+      with_genres: filters.genreIds?.length ? filters.genreIds.join(',') : undefined,
+      'primary_release_date.gte': filters.yearFrom !== undefined ? `${filters.yearFrom}-01-01` : undefined,
+      'primary_release_date.lte': filters.yearTo !== undefined ? `${filters.yearTo}-12-31` : undefined,
+      with_original_language: filters.originalLanguage,
+      'vote_average.gte': toParam(filters.minVoteAverage),
+      'vote_count.gte': toParam(filters.minVoteCount),
+      'with_runtime.gte': toParam(filters.minRuntime),
+      'with_runtime.lte': toParam(filters.maxRuntime),
+    }, signal);
+    return { ...data, total_pages: Math.min(data.total_pages, MAX_SEARCH_PAGES) };
+  } catch (error) {
+    console.error('Error discovering movies:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the list of movie genres from TMDB API
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the genres
+ */
+export const getMovieGenres = async (signal?: AbortSignal): Promise<TMDBGenre[]> => {
+  try {
+    return await tmdbFetch('/genre/movie/list', genreListSchema, {}, signal);
+  } catch (error) {
+    console.error('Error getting movie genres:', error);
+    throw error;
+  }
+};
+
 /**
  * Get movie details from TMDB API
  * @param movieId TMDB movie ID
+ * @param signal Optional signal to abort the request
  * @returns Promise with movie details
  */
-export const getMovieDetails = async (movieId: number): Promise<TMDBMovieDetails> => {
+export const getMovieDetails = async (movieId: number, signal?: AbortSignal): Promise<TMDBMovieDetails> => {
   try {
-    const url = `${TMDB_API_BASE_URL}/movie/${movieId}?api_key=${TMDB_API_KEY}`;
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return data;
+    const { translations, ...details } = await tmdbFetch(`/movie/${movieId}`, movieDetailsSchema, {
+      append_to_response: 'translations',
+    }, signal);
+    return withEnglishFallback(details, translations, ['title', 'overview']);
   } catch (error) {
     console.error('Error getting movie details:', error);
     throw error;
   }
 };
 
+/**
+ * Get movie details with credits, videos and release dates from TMDB API in one request
+ * @param movieId TMDB movie ID
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the full movie details
+ */
+export const getMovieFullDetails = async (movieId: number, signal?: AbortSignal): Promise<TMDBMovieFullDetails> => {
+  try {
+    const { translations, ...details } = await tmdbFetch(`/movie/${movieId}`, movieFullDetailsSchema, {
+      append_to_response: 'credits,videos,release_dates,translations',
+    }, signal);
+    return withEnglishFallback(details, translations, ['title', 'overview', 'tagline']);
+  } catch (error) {
+    console.error('Error getting full movie details:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the age certification of a movie in a region, e.g. PG-13
+ * Theatrical releases are preferred over other release types
+ * @param details Full movie details
+ * @param region ISO 3166-1 region code
+ * @returns Certification, or null if the region has none
+ */
+export const getCertification = (details: TMDBMovieFullDetails, region: string = 'US'): string | null => {
+  const releases = details.release_dates.results.find((result) => result.iso_3166_1 === region.toUpperCase());
+  const certified = releases?.release_dates
+    .filter((release) => release.certification)
+    // Release type 3 is theatrical
+    .sort((a, b) => Number(b.type === 3) - Number(a.type === 3));
+  return certified?.[0]?.certification || null;
+};
+
+/**
+ * Get a movie's YouTube trailers and teasers, official ones first
+ * @param details Full movie details
+ * @returns Trailer videos
+ */
+export const getTrailers = (details: TMDBMovieFullDetails): TMDBVideo[] =>
+  details.videos.results
+    .filter((video) => video.site === 'YouTube' && (video.type === 'Trailer' || video.type === 'Teaser'))
+    .sort((a, b) => Number(b.official) - Number(a.official) || Number(b.type === 'Trailer') - Number(a.type === 'Trailer'));
+
 /**
  * Get IMDB ID for a movie by its TMDB ID
  * @param tmdbId TMDB movie ID
@@ -130,15 +842,421 @@ export const getImdbId = async (tmdbId: number): Promise<string | null> => {
   }
 };
 
+/**
+ * Look up what an IMDB ID refers to via the TMDB find endpoint
+ * @param imdbId IMDB ID, e.g. tt0137523
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the matching movie, series or episode, or null if TMDB doesn't know the ID
+ */
+export const findByImdbId = async (imdbId: string, signal?: AbortSignal): Promise<TMDBImdbMatch | null> => {
+  try {
+    const path = `/find/${encodeURIComponent(imdbId)}`;
+    let data = await tmdbFetch(path, findResponseSchema, { external_source: 'imdb_id' }, signal);
+    const found = [...data.movie_results, ...data.tv_results, ...data.tv_episode_results];
+    if (needsEnglishResults(found)) {
+      const english = await tmdbFetch(path, findResponseSchema, {
+        external_source: 'imdb_id',
+        language: FALLBACK_LANGUAGE,
+      }, signal);
+      data = {
+        movie_results: fillFromEnglishResults(data.movie_results, english.movie_results),
+        tv_results: fillFromEnglishResults(data.tv_results, english.tv_results),
+        tv_episode_results: fillFromEnglishResults(data.tv_episode_results, english.tv_episode_results),
+      };
+    }
+    if (data.movie_results[0]) {
+      return { media_type: 'movie', movie: { ...data.movie_results[0], imdb_id: imdbId } };
+    }
+    if (data.tv_results[0]) {
+      return { media_type: 'tv', show: data.tv_results[0] };
+    }
+    if (data.tv_episode_results[0]) {
+      return { media_type: 'episode', episode: data.tv_episode_results[0] };
+    }
+    return null;
+  } catch (error) {
+    console.error('Error finding IMDB ID on TMDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Search TV series from TMDB API
+ * @param query Search query string
+ * @returns Promise with search results
+ */
+export const searchTv = async (query: string): Promise<TMDBTvResult[]> => {
+  if (!query || query.length < 2) return [];
+  
+  try {
+    const data = await tmdbFetchResults('/search/tv', searchResponseSchema(tvResultSchema), {
+      query,
+      include_adult: 'false',
+    });
+    return data.results;
+  } catch (error) {
+    console.error('Error searching TMDB TV:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get TV series details, including its seasons and IMDB ID, from TMDB API
+ * @param tvId TMDB series ID
+ * @param signal Optional signal to abort the request
+ * @returns Promise with series details
+ */
+export const getTvDetails = async (tvId: number, signal?: AbortSignal): Promise<TMDBTvDetails> => {
+  try {
+    const { translations, ...details } = await tmdbFetch(`/tv/${tvId}`, tvDetailsSchema, {
+      append_to_response: 'external_ids,translations',
+    }, signal);
+    return withEnglishFallback(details, translations, ['name', 'overview']);
+  } catch (error) {
+    console.error('Error getting TV details:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a season of a TV series, with its episode list, from TMDB API
+ * @param tvId TMDB series ID
+ * @param seasonNumber Season number (0 for specials)
+ * @param signal Optional signal to abort the request
+ * @returns Promise with season details
+ */
+export const getTvSeason = async (tvId: number, seasonNumber: number, signal?: AbortSignal): Promise<TMDBSeason> => {
+  try {
+    const path = `/tv/${tvId}/season/${seasonNumber}`;
+    const season = await tmdbFetch(path, seasonSchema, {}, signal);
+    const isUntranslated = (episode: TMDBEpisode) => !episode.name || !episode.overview;
+    if (getLanguageCode(getLocalePreference().language) === 'en' || !season.episodes.some(isUntranslated)) {
+      return season;
+    }
+    
+    // Episodes have no translations to append, so untranslated ones are filled from the English season
+    const english = await tmdbFetch(path, seasonSchema, { language: FALLBACK_LANGUAGE }, signal);
+    const englishEpisodes = new Map(english.episodes.map((episode) => [episode.episode_number, episode]));
+    return {
+      ...season,
+      episodes: season.episodes.map((episode) => ({
+        ...episode,
+        name: episode.name || englishEpisodes.get(episode.episode_number)?.name || '',
+        overview: episode.overview || englishEpisodes.get(episode.episode_number)?.overview || '',
+      })),
+    };
+  } catch (error) {
+    console.error('Error getting TV season:', error);
+    throw error;
+  }
+};
+
+/**
+ * Search movies, TV series and people at once from TMDB API
+ * @param query Search query string
+ * @returns Promise with search results, each tagged with its media type
+ */
+export const searchMulti = async (query: string): Promise<TMDBMultiResult[]> => {
+  if (!query || query.length < 2) return [];
+  
+  try {
+    // Collections and other types we cannot route are dropped by the schema
+    const data = await tmdbFetchResults('/search/multi', searchResponseSchema(searchResultSchemas.multi), {
+      query,
+      include_adult: 'false',
+    });
+    return data.results;
+  } catch (error) {
+    console.error('Error searching TMDB multi:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get one page of search results from TMDB API, with paging totals
+ * Movie and TV searches are tagged with their media type so every search type yields multi results
+ * @param query Search query string
+ * @param type Which search endpoint to use
+ * @param page Page number, starting at 1
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the page of results and the total result and page counts
+ */
+export const searchPage = async (
+  query: string,
+  type: TMDBSearchType = 'multi',
+  page: number = 1,
+  signal?: AbortSignal
+): Promise<TMDBSearchResponse<TMDBMultiResult>> => {
+  if (!query || query.length < 2) {
+    return { page: 1, results: [], total_results: 0, total_pages: 0 };
+  }
+  
+  try {
+    const data = await tmdbFetchResults(`/search/${type}`, searchResponseSchema(searchResultSchemas[type]), {
+      query,
+      page: String(page),
+      include_adult: 'false',
+    }, signal);
+    return { ...data, total_pages: Math.min(data.total_pages, MAX_SEARCH_PAGES) };
+  } catch (error) {
+    console.error('Error searching TMDB page:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a person's movie and TV credits from TMDB API, newest first
+ * Acting and crew credits are merged so directors and writers get a filmography too
+ * @param personId TMDB person ID
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the person's credits
+ */
+export const getPersonCredits = async (personId: number, signal?: AbortSignal): Promise<TMDBPersonCredit[]> => {
+  try {
+    const path = `/person/${personId}/combined_credits`;
+    const data = await tmdbFetch(path, personCreditsSchema, {}, signal);
+    let listed = [...data.cast, ...data.crew];
+    if (needsEnglishResults(listed)) {
+      const english = await tmdbFetch(path, personCreditsSchema, { language: FALLBACK_LANGUAGE }, signal);
+      listed = fillFromEnglishResults(listed, [...english.cast, ...english.crew]);
+    }
+    const credits = new Map<string, TMDBPersonCredit>();
+    listed.forEach((credit) => {
+      const key = `${credit.media_type}:${credit.id}`;
+      if (!credits.has(key)) credits.set(key, credit);
+    });
+    return [...credits.values()].sort((a, b) =>
+      (getResultDate(b) ?? '').localeCompare(getResultDate(a) ?? '')
+    );
+  } catch (error) {
+    console.error('Error getting person credits:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get where a movie or series can be streamed, rented or bought in a region
+ * Availability data comes from JustWatch, which TMDB asks apps to credit
+ * @param tmdbId TMDB movie or series ID
+ * @param region ISO 3166-1 region code
+ * @param mediaType Whether the ID is a movie or a series
+ * @param signal Optional signal to abort the request
+ * @returns Promise with the region's providers; empty lists when the title isn't offered there
+ */
+export const getWatchProviders = async (
+  tmdbId: number,
+  region: string,
+  mediaType: 'movie' | 'tv' = 'movie',
+  signal?: AbortSignal
+): Promise<TMDBWatchProviders> => {
+  try {
+    const data = await tmdbFetch(`/${mediaType}/${tmdbId}/watch/providers`, watchProvidersSchema, {}, signal);
+    return data.results[region.toUpperCase()] ?? { link: null, flatrate: [], rent: [], buy: [] };
+  } catch (error) {
+    console.error('Error getting watch providers:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the image path of a multi search result: the poster for titles, the profile photo for people
+ * @param result Multi search result
+ * @returns Image path, or null if TMDB has none
+ */
+export const getResultImagePath = (result: TMDBMultiResult): string | null =>
+  result.media_type === 'person' ? result.profile_path : result.poster_path;
+
+/**
+ * Get the date of a multi search result: the release date for movies, the first air date for series
+ * @param result Multi search result
+ * @returns Date string, or null for people and titles without a date
+ */
+export const getResultDate = (result: TMDBMultiResult): string | null => {
+  switch (result.media_type) {
+    case 'movie':
+      return result.release_date || null;
+    case 'tv':
+      return result.first_air_date || null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Get the year of a multi search result: the release year for movies, the first air year for series
+ * @param result Multi search result
+ * @returns Year, or null for people and titles without a date
+ */
+export const getResultYear = (result: TMDBMultiResult): number | null => {
+  switch (result.media_type) {
+    case 'movie':
+      return result.release_year;
+    case 'tv':
+      return result.first_air_year;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Format a season/episode pair the usual way, e.g. S01E05
+ * @param season Season number
+ * @param episode Episode number
+ * @returns Episode code
+ */
+export const formatEpisodeCode = (season: number, episode: number): string =>
+  `S${String(season).padStart(2, '0')}E${String(episode).padStart(2, '0')}`;
+
+/**
+ * Kinds of TMDB image, each with its own list of sizes
+ */
+export type TMDBImageKind = 'poster' | 'backdrop' | 'profile' | 'logo' | 'still';
+
+/**
+ * Interface for the images part of the TMDB configuration
+ */
+export interface TMDBImageConfiguration {
+  secure_base_url: string;
+  poster_sizes: string[];
+  backdrop_sizes: string[];
+  profile_sizes: string[];
+  logo_sizes: string[];
+  still_sizes: string[];
+}
+
+// Used until the configuration has loaded, or if it can't be
+const DEFAULT_IMAGE_CONFIGURATION: TMDBImageConfiguration = {
+  secure_base_url: 'https://image.tmdb.org/t/p/',
+  poster_sizes: ['w92', 'w154', 'w185', 'w342', 'w500', 'w780', 'original'],
+  backdrop_sizes: ['w300', 'w780', 'w1280', 'original'],
+  profile_sizes: ['w45', 'w185', 'h632', 'original'],
+  logo_sizes: ['w45', 'w92', 'w154', 'w185', 'w300', 'w500', 'original'],
+  still_sizes: ['w92', 'w185', 'w300', 'original'],
+};
+
+// TMDB changes its image configuration rarely and suggests caching it for days
+const IMAGE_CONFIGURATION_STORAGE_KEY = 'tmdb-image-configuration';
+const IMAGE_CONFIGURATION_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+
+let imageConfiguration: TMDBImageConfiguration = DEFAULT_IMAGE_CONFIGURATION;
+let imageConfigurationPromise: Promise<TMDBImageConfiguration> | null = null;
+
+// Read a cached configuration from localStorage, if it is still fresh
+const readStoredImageConfiguration = (): TMDBImageConfiguration | null => {
+  try {
+    const stored = localStorage.getItem(IMAGE_CONFIGURATION_STORAGE_KEY);
+    if (!stored) return null;
+    const { savedAt, images } = JSON.parse(stored);
+    if (typeof savedAt !== 'number' || Date.now() - savedAt >= IMAGE_CONFIGURATION_MAX_AGE_MS) return null;
+    const result = configurationSchema.safeParse({ images });
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get the image configuration currently in use
+ * @returns The loaded configuration, or TMDB's defaults before it has loaded
+ */
+export const getImageConfiguration = (): TMDBImageConfiguration => imageConfiguration;
+
+/**
+ * Load the TMDB image configuration once, from localStorage when fresh, otherwise from the API
+ * Failures fall back to TMDB's default configuration, so images keep working
+ * @returns Promise with the configuration
+ */
+export const loadImageConfiguration = (): Promise<TMDBImageConfiguration> => {
+  if (!imageConfigurationPromise) {
+    const stored = readStoredImageConfiguration();
+    imageConfigurationPromise = stored
+      ? Promise.resolve(stored)
+      : tmdbFetch('/configuration', configurationSchema).then((images) => {
+          try {
+            localStorage.setItem(
+              IMAGE_CONFIGURATION_STORAGE_KEY,
+              JSON.stringify({ savedAt: Date.now(), images })
+            );
+          } catch {
+            // Storage full or disabled: the configuration just isn't cached across visits
+          }
+          return images;
+        }, (error) => {
+          console.error('Error loading TMDB image configuration:', error);
+          return DEFAULT_IMAGE_CONFIGURATION;
+        });
+    imageConfigurationPromise.then((images) => {
+      imageConfiguration = images;
+    });
+  }
+  return imageConfigurationPromise;
+};
+
+// Sizes of a kind of image, as listed by the configuration
+const getImageSizes = (kind: TMDBImageKind): string[] => imageConfiguration[`${kind}_sizes`];
+
+/**
+ * Get a full image URL from a TMDB image path
+ * @param kind Kind of image, which decides the sizes available
+ * @param path Image path from TMDB
+ * @param size Size from the configuration, e.g. w342; unknown sizes fall back to the original
+ * @returns Full image URL or a placeholder if the path is null
+ */
+export const getImageUrl = (kind: TMDBImageKind, path: string | null, size: string): string => {
+  if (!path) {
+    return '/placeholder.svg'; // Return placeholder image if no image
+  }
+  const validSize = getImageSizes(kind).includes(size) ? size : 'original';
+  return `${imageConfiguration.secure_base_url}${validSize}${path}`;
+};
+
+/**
+ * Get a srcset listing every fixed-width size of a TMDB image
+ * @param kind Kind of image
+ * @param path Image path from TMDB
+ * @returns srcset attribute value, or undefined if the path is null
+ */
+export const getImageSrcSet = (kind: TMDBImageKind, path: string | null): string | undefined => {
+  if (!path) return undefined;
+  return getImageSizes(kind)
+    // Height-based (h632) and original sizes have no known width to describe
+    .filter((size) => /^w\d+$/.test(size))
+    .map((size) => `${getImageUrl(kind, path, size)} ${size.slice(1)}w`)
+    .join(', ');
+};
+
 /**
  * Get a full poster image URL from TMDB poster path
  * @param posterPath Poster path from TMDB
  * @param size Size of the poster (w92, w154, w185, w342, w500, w780, original)
  * @returns Full poster URL or a placeholder if poster path is null
  */
-export const getPosterUrl = (posterPath: string | null, size: string = 'w185'): string => {
-  if (!posterPath) {
-    return '/placeholder.svg'; // Return placeholder image if no poster
-  }
-  return `https://image.tmdb.org/t/p/${size}${posterPath}`;
-};
+export const getPosterUrl = (posterPath: string | null, size: string = 'w185'): string =>
+  getImageUrl('poster', posterPath, size);
+
+/**
+ * Get a full backdrop image URL from TMDB backdrop path
+ * @param backdropPath Backdrop path from TMDB
+ * @param size Size of the backdrop (w300, w780, w1280, original)
+ * @returns Full backdrop URL or a placeholder if backdrop path is null
+ */
+export const getBackdropUrl = (backdropPath: string | null, size: string = 'w1280'): string =>
+  getImageUrl('backdrop', backdropPath, size);
+
+/**
+ * Get a full profile photo URL from TMDB profile path
+ * @param profilePath Profile path from TMDB
+ * @param size Size of the photo (w45, w185, h632, original)
+ * @returns Full profile URL or a placeholder if profile path is null
+ */
+export const getProfileUrl = (profilePath: string | null, size: string = 'w185'): string =>
+  getImageUrl('profile', profilePath, size);
+
+/**
+ * Get a full logo image URL from TMDB logo path
+ * @param logoPath Logo path from TMDB
+ * @param size Size of the logo (w45, w92, w154, w185, w300, w500, original)
+ * @returns Full logo URL or a placeholder if logo path is null
+ */
+export const getLogoUrl = (logoPath: string | null, size: string = 'w92'): string =>
+  getImageUrl('logo', logoPath, size);
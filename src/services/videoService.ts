@@ -1,19 +1,230 @@
 
 // This service handles fetching new video URLs when the old ones expire
 
+import { findSourceProviderForUrl, getCanonicalEmbedUrl } from './sourceProviders';
+
+/**
+ * How a video URL should be played
+ */
+export type VideoSourceType = 'hls' | 'dash' | 'progressive' | 'iframe-embed' | 'youtube' | 'unknown';
+
+/**
+ * Source types that play in a native <video> element
+ */
+export type NativeVideoSourceType = Extract<VideoSourceType, 'hls' | 'dash' | 'progressive'>;
+
 /**
- * Interface for video source configuration
+ * Fields shared by every kind of video source
  */
-interface VideoSourceConfig {
+interface VideoSourceBase {
+  url: string;
   baseUrl: string;
   videoId: string;
+  providerId?: string;
   authToken?: string;
   params?: Record<string, string>;
-  isDirectVideo?: boolean;
 }
 
+export interface HlsVideoSource extends VideoSourceBase {
+  type: 'hls';
+  mimeType: string;
+}
+
+export interface DashVideoSource extends VideoSourceBase {
+  type: 'dash';
+  mimeType: string;
+}
+
+export interface ProgressiveVideoSource extends VideoSourceBase {
+  type: 'progressive';
+  mimeType: string;
+}
+
+export interface IframeEmbedVideoSource extends VideoSourceBase {
+  type: 'iframe-embed';
+  embedUrl: string;
+}
+
+export interface YoutubeVideoSource extends VideoSourceBase {
+  type: 'youtube';
+  youtubeId: string;
+  embedUrl: string;
+}
+
+export interface UnknownVideoSource extends VideoSourceBase {
+  type: 'unknown';
+}
+
+/**
+ * Video source configuration, discriminated by how the source plays
+ */
+export type VideoSourceConfig =
+  | HlsVideoSource
+  | DashVideoSource
+  | ProgressiveVideoSource
+  | IframeEmbedVideoSource
+  | YoutubeVideoSource
+  | UnknownVideoSource;
+
+/**
+ * Interface for a freshly issued video URL
+ */
+export interface RefreshedVideoUrl {
+  url: string;
+  expiresAt: Date | null;
+}
+
+/**
+ * Request body sent to the refresh endpoint
+ */
+export interface VideoRefreshRequest {
+  source: VideoSourceConfig;
+}
+
+/**
+ * Response body returned by the refresh endpoint
+ * expiresAt is an ISO 8601 date, or null when the URL does not expire
+ */
+export interface VideoRefreshResponse {
+  url: string;
+  expiresAt: string | null;
+}
+
+/**
+ * Error codes the refresh endpoint can report
+ */
+export type VideoRefreshErrorCode =
+  | 'invalid-config'
+  | 'method-not-allowed'
+  | 'unauthorized'
+  | 'not-found'
+  | 'server'
+  | 'network'
+  | 'invalid-response';
+
+/**
+ * Error body returned by the refresh endpoint on failure
+ */
+export interface VideoRefreshErrorResponse {
+  error: {
+    code: VideoRefreshErrorCode;
+    message: string;
+  };
+}
+
+/**
+ * Error thrown when a video URL cannot be refreshed
+ */
+export class VideoRefreshError extends Error {
+  readonly code: VideoRefreshErrorCode;
+  readonly status?: number;
+
+  constructor(code: VideoRefreshErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'VideoRefreshError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Endpoint that issues fresh video URLs (see server/refresh-server.js for a local stand-in)
+const REFRESH_ENDPOINT = import.meta.env.VITE_REFRESH_ENDPOINT || '/api/refresh';
+
+// Give up on the refresh endpoint after this long
+const REFRESH_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Check whether a source plays in a native <video> element
+ * @param source Parsed source configuration
+ * @returns True for HLS, DASH and progressive sources
+ */
+export const isNativeVideoSource = (
+  source: VideoSourceConfig
+): source is HlsVideoSource | DashVideoSource | ProgressiveVideoSource =>
+  source.type === 'hls' || source.type === 'dash' || source.type === 'progressive';
+
+// MIME types by file extension, used to sniff the source type from a pathname
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  m3u8: 'application/vnd.apple.mpegurl',
+  m3u: 'application/vnd.apple.mpegurl',
+  mpd: 'application/dash+xml',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  ogg: 'video/ogg',
+  ogv: 'video/ogg',
+  mov: 'video/quicktime',
+};
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com'];
+
+// Content types of HLS playlists as served in the wild
+const HLS_CONTENT_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl', 'audio/x-mpegurl'];
+
+// Give up on a content-type probe after this long
+const PROBE_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * Work out which source type a MIME type belongs to
+ * @param mimeType MIME type, without parameters
+ * @returns The source type, or null if the MIME type is not a video type we know
+ */
+const sourceTypeForMimeType = (mimeType: string): NativeVideoSourceType | 'iframe-embed' | null => {
+  const normalized = mimeType.toLowerCase();
+  if (HLS_CONTENT_TYPES.includes(normalized)) return 'hls';
+  if (normalized === 'application/dash+xml') return 'dash';
+  if (normalized.startsWith('video/')) return 'progressive';
+  if (normalized === 'text/html') return 'iframe-embed';
+  return null;
+};
+
+/**
+ * Extract the YouTube video ID from a watch, short, embed or youtu.be URL
+ * @param urlObj Parsed URL
+ * @returns The video ID or null if the URL is not a YouTube video
+ */
+const getYoutubeId = (urlObj: URL): string | null => {
+  if (urlObj.hostname === 'youtu.be') {
+    return urlObj.pathname.split('/')[1] || null;
+  }
+  if (!YOUTUBE_HOSTS.includes(urlObj.hostname)) return null;
+  if (urlObj.pathname === '/watch') return urlObj.searchParams.get('v');
+  const match = urlObj.pathname.match(/^\/(?:embed|shorts|live)\/([\w-]+)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Build the source configuration for a given type
+ * @param base Fields shared by every source
+ * @param type Source type
+ * @param mimeType MIME type for native sources
+ * @returns The source configuration
+ */
+const withSourceType = (
+  base: VideoSourceBase,
+  type: NativeVideoSourceType | 'iframe-embed' | 'unknown',
+  mimeType?: string
+): VideoSourceConfig => {
+  switch (type) {
+    case 'hls':
+      return { ...base, type, mimeType: mimeType ?? EXTENSION_MIME_TYPES.m3u8 };
+    case 'dash':
+      return { ...base, type, mimeType: mimeType ?? EXTENSION_MIME_TYPES.mpd };
+    case 'progressive':
+      return { ...base, type, mimeType: mimeType ?? EXTENSION_MIME_TYPES.mp4 };
+    case 'iframe-embed':
+      return { ...base, type, embedUrl: getCanonicalEmbedUrl(base.url) };
+    default:
+      return { ...base, type: 'unknown' };
+  }
+};
+
 /**
  * Parse the video URL to extract components like domain, video ID, etc.
+ * The source type comes from the matching source provider, then YouTube URL
+ * shapes, then the file extension of the pathname (so signed query strings
+ * don't get in the way). URLs none of these recognise are 'unknown'; use
+ * probeVideoSource to settle them.
  * @param url The video URL to parse
  * @returns Parsed URL components in an object
  */
@@ -21,135 +232,293 @@ export const parseVideoUrl = (url: string): VideoSourceConfig | null => {
   try {
     const urlObj = new URL(url);
     const pathParts = urlObj.pathname.split('/').filter(Boolean);
+    const provider = findSourceProviderForUrl(url)?.provider;
     
-    // Check if it's a direct video URL (like .m3u8)
-    const isDirectVideo = url.endsWith('.m3u8') || 
-                          url.includes('/stream') || 
-                          url.match(/\.(mp4|webm|ogg|mov)$/i) !== null;
-    
-    return {
+    const base: VideoSourceBase = {
+      url,
       baseUrl: `${urlObj.protocol}//${urlObj.hostname}`,
       videoId: pathParts[pathParts.length - 1] || '',
+      providerId: provider?.id,
       params: Object.fromEntries(urlObj.searchParams.entries()),
-      isDirectVideo
     };
+    
+    const extension = urlObj.pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+    const sniffedMimeType = extension ? EXTENSION_MIME_TYPES[extension] : undefined;
+    
+    // A registered provider knows how its URLs play
+    if (provider) {
+      const type = provider.kind === 'iframe' ? 'iframe-embed' : provider.kind;
+      const mimeType = sniffedMimeType && sourceTypeForMimeType(sniffedMimeType) === type ? sniffedMimeType : undefined;
+      return withSourceType(base, type, mimeType);
+    }
+    
+    const youtubeId = getYoutubeId(urlObj);
+    if (youtubeId) {
+      return {
+        ...base,
+        type: 'youtube',
+        youtubeId,
+        embedUrl: `https://www.youtube-nocookie.com/embed/${youtubeId}`,
+      };
+    }
+    
+    if (sniffedMimeType) {
+      return withSourceType(base, sourceTypeForMimeType(sniffedMimeType) ?? 'unknown', sniffedMimeType);
+    }
+    
+    return withSourceType(base, 'unknown');
   } catch (error) {
     console.error("Failed to parse video URL:", error);
     return null;
   }
 };
 
+/**
+ * Settle the type of a source parseVideoUrl could not classify by asking the
+ * server for its content type. Cross-origin servers without CORS headers
+ * can't be probed, in which case the source stays 'unknown'.
+ * @param source Parsed source configuration
+ * @returns The source configuration with its type filled in where possible
+ */
+export const probeVideoSource = async (source: VideoSourceConfig): Promise<VideoSourceConfig> => {
+  if (source.type !== 'unknown') return source;
+  
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  
+  try {
+    const response = await fetch(source.url, { method: 'HEAD', signal: controller.signal });
+    const contentType = response.headers.get('Content-Type')?.split(';')[0].trim();
+    const type = contentType ? sourceTypeForMimeType(contentType) : null;
+    return type ? withSourceType(source, type, contentType) : source;
+  } catch (error) {
+    console.warn("Could not probe video source type:", error);
+    return source;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Map an HTTP status from the refresh endpoint to an error code
+ * @param status HTTP status code
+ * @returns The matching error code
+ */
+const errorCodeForStatus = (status: number): VideoRefreshErrorCode => {
+  if (status === 400 || status === 422) return 'invalid-config';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 404) return 'not-found';
+  if (status === 405) return 'method-not-allowed';
+  return 'server';
+};
+
 /**
  * Fetch a new video URL when the old one expires
- * This is a mock implementation - replace with your actual API call
+ * Posts the source configuration to the refresh endpoint (VITE_REFRESH_ENDPOINT,
+ * default /api/refresh), which issues a fresh URL using credentials the client never sees
  * @param sourceConfig Information about the video source
- * @returns A Promise that resolves to the new URL
+ * @returns A Promise that resolves to the new URL and its expiry
+ * @throws VideoRefreshError when the endpoint is unreachable or rejects the request
  */
-export const fetchNewVideoUrl = async (sourceConfig: VideoSourceConfig): Promise<string> => {
-  // In a real implementation, you would:
-  // 1. Call your backend API
-  // 2. The backend would fetch a fresh URL using credentials or tokens
-  // 3. Return the new URL to the client
+export const fetchNewVideoUrl = async (sourceConfig: VideoSourceConfig): Promise<RefreshedVideoUrl> => {
+  // Check if we have valid config
+  if (!sourceConfig.baseUrl || !sourceConfig.videoId) {
+    throw new VideoRefreshError('invalid-config', "Invalid video source configuration");
+  }
   
-  // This is a simulation - in production replace with actual API calls
-  return new Promise((resolve, reject) => {
-    setTimeout(() => {
-      // Check if we have valid config
-      if (!sourceConfig.baseUrl || !sourceConfig.videoId) {
-        reject(new Error("Invalid video source configuration"));
-        return;
-      }
-      
-      try {
-        // Handle different URL types
-        let newUrl;
-        
-        if (sourceConfig.isDirectVideo) {
-          // For direct video URLs like m3u8, add a timestamp to force refresh
-          const timestamp = Date.now();
-          if (sourceConfig.baseUrl.includes('i-cdn')) {
-            // Example refresh for stream URLs - in production this would come from your backend
-            newUrl = `${sourceConfig.baseUrl}/stream2/i-cdn-0/42736faa7d17d5e3f3d145baf3850d44/MJTMsp1RshGTygnMNRUR2N2MSlnWXZEdMNDZzQWe5MDZzMmdZJTO1R2RWVHZDljekhkSsl1VwYnWtx2cihVT21keRNTWU1ENadVU69ERJdnWHZUaOp2Y5lleox2TEFEeZp2a0oVbJNTTU1UP:${timestamp}:117.235.253.44:bf32bff0cbfda4dfc7b1d4e32ee4f2644e9d81783c25c1f18e5ec3c261cc0ad9/1080/index.m3u8`;
-          } else {
-            // Generic timestamp append
-            newUrl = `${sourceConfig.baseUrl}${sourceConfig.videoId}?_=${timestamp}`;
-          }
-        } else {
-          // For iframe embed URLs
-          const timestamp = Date.now();
-          newUrl = `${sourceConfig.baseUrl}/play/${sourceConfig.videoId}?refresh=${timestamp}`;
-        }
-        
-        // Log for debugging
-        console.log("Generated new video URL:", newUrl);
-        
-        resolve(newUrl);
-      } catch (error) {
-        reject(error);
-      }
-    }, 1000); // Simulate network delay
-  });
-};
-
-/**
- * Utility to check if a video URL is likely expired
- * @param url The URL to check
- * @returns Boolean indicating if the URL appears to be expired
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REFRESH_TIMEOUT_MS);
+  const body: VideoRefreshRequest = { source: sourceConfig };
+  
+  let response: Response;
+  try {
+    response = await fetch(REFRESH_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    const reason = controller.signal.aborted ? 'timed out' : 'is unreachable';
+    throw new VideoRefreshError('network', `Refresh endpoint ${reason}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+  
+  const data = await response.json().catch(() => null);
+  
+  if (!response.ok) {
+    const errorBody = data as VideoRefreshErrorResponse | null;
+    throw new VideoRefreshError(
+      errorBody?.error?.code ?? errorCodeForStatus(response.status),
+      errorBody?.error?.message ?? `Refresh endpoint error: ${response.status}`,
+      response.status
+    );
+  }
+  
+  const result = data as VideoRefreshResponse | null;
+  if (!result || typeof result.url !== 'string') {
+    throw new VideoRefreshError('invalid-response', "Refresh endpoint returned no URL", response.status);
+  }
+  
+  const expiresAt = result.expiresAt ? new Date(result.expiresAt) : null;
+  return {
+    url: result.url,
+    expiresAt: expiresAt && !isNaN(expiresAt.getTime()) ? expiresAt : null,
+  };
+};
+
+// Signed URLs that only carry their issue time are assumed to live this long
+const SIGNED_URL_TTL_MS = 60 * 60 * 1000;
+
+// How long before the real expiry a refresh should be scheduled
+export const EXPIRY_REFRESH_LEAD_MS = 60 * 1000;
+
+// Largest delay setTimeout can represent
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Expiries outside this range are not real timestamps, e.g. exp=2024 (a year) read as epoch seconds
+const MIN_PLAUSIBLE_EXPIRY_MS = Date.UTC(2000, 0, 1);
+const MAX_PLAUSIBLE_EXPIRY_MS = Date.UTC(2100, 0, 1);
+
+/**
+ * Keep an expiry only if it falls within the range real signed URLs use
+ * @param timestamp Timestamp in milliseconds
+ * @returns The timestamp, or null if it is implausible
+ */
+const plausibleExpiry = (timestamp: number): number | null =>
+  timestamp >= MIN_PLAUSIBLE_EXPIRY_MS && timestamp < MAX_PLAUSIBLE_EXPIRY_MS ? timestamp : null;
+
+/**
+ * Convert an expiry value from a URL into a timestamp in milliseconds
+ * Accepts epoch seconds, epoch milliseconds or a date string
+ * @param value Raw value from the URL
+ * @returns Timestamp in milliseconds or null if it cannot be understood or isn't plausible
+ */
+const parseExpiryValue = (value: string): number | null => {
+  if (/^\d+$/.test(value)) {
+    const numeric = Number(value);
+    // Anything past 10^12 is already in milliseconds
+    return plausibleExpiry(numeric > 1e12 ? numeric : numeric * 1000);
+  }
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : plausibleExpiry(parsed);
+};
+
+/**
+ * Read the expiry from an AWS SigV4 (S3) presigned URL
+ * @param params Query parameters of the URL
+ * @returns Expiry timestamp in milliseconds or null
  */
-export const isVideoUrlExpired = async (url: string): Promise<boolean> => {
-  // In a real implementation, you would check if the URL is still valid
-  // For example, you might:
-  // 1. Make a HEAD request to the URL
-  // 2. Check the response status
+const getAmzExpiry = (params: URLSearchParams): number | null => {
+  const signedAt = params.get('X-Amz-Date');
+  const lifetime = params.get('X-Amz-Expires');
+  if (!signedAt || !lifetime) return null;
   
-  // This is a simulation - in production replace with actual checks
-  return new Promise((resolve) => {
-    // Simulate a check by random chance (30% chance of being expired)
-    const isExpired = Math.random() < 0.3;
-    resolve(isExpired);
-  });
+  // X-Amz-Date uses the compact ISO 8601 form, e.g. 20240101T120000Z
+  const match = signedAt.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return plausibleExpiry(Date.UTC(year, month - 1, day, hours, minutes, seconds) + Number(lifetime) * 1000);
 };
 
 /**
- * Extract the original video stream URL from an iframe embed page
- * @param iframeUrl The iframe embed URL
- * @returns A Promise that resolves to the extracted direct video URL or null if not found
+ * Read the expiry from a CloudFront custom policy
+ * @param params Query parameters of the URL
+ * @returns Expiry timestamp in milliseconds or null
  */
-export const extractOriginalVideoUrl = async (iframeUrl: string): Promise<string | null> => {
+const getCloudFrontPolicyExpiry = (params: URLSearchParams): number | null => {
+  const policy = params.get('Policy');
+  if (!policy) return null;
+  
   try {
-    // In a real implementation, you would:
-    // 1. Make a request to the iframe URL
-    // 2. Parse the HTML response to find the video source
-    // 3. Return the direct video URL
-    
-    // For demonstration purposes, we'll simulate this with a mock implementation
-    
-    console.log("Attempting to extract original video from:", iframeUrl);
-    
-    // Parse the iframe URL
-    const sourceConfig = parseVideoUrl(iframeUrl);
-    if (!sourceConfig) {
-      throw new Error("Invalid iframe URL");
-    }
-    
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Simulate extracting different types of video URLs based on the domain
-        if (iframeUrl.includes('jole340erun.com')) {
-          // For this specific domain, generate a simulated direct stream URL
-          // Importantly, we use a generic structure that doesn't depend on the movie ID
-          const timestamp = Date.now();
-          const simulatedDirectUrl = `https://i-cdn-0.jole340erun.com/stream2/i-cdn-0/42736faa7d17d5e3f3d145baf3850d44/MJTMsp1RshGTygnMNRUR2N2MSlnWXZEdMNDZzQWe5MDZzMmdZJTO1R2RWVHZDljekhkSsl1VwYnWtx2cihVT21keRNTWU1ENadVU69ERJdnWHZUaOp2Y5lleox2TEFEeZp2a0oVbJNTTU1UP:${timestamp}:117.235.253.44:bf32bff0cbfda4dfc7b1d4e32ee4f2644e9d81783c25c1f18e5ec3c261cc0ad9/1080/index.m3u8`;
-          console.log("Extracted direct video URL:", simulatedDirectUrl);
-          resolve(simulatedDirectUrl);
-        } else {
-          // Generic fallback for other domains
-          resolve(null);
-        }
-      }, 1000); // Simulate network delay
-    });
-  } catch (error) {
-    console.error("Error extracting original video URL:", error);
+    // CloudFront swaps the base64 characters that are unsafe in URLs
+    const json = atob(policy.replace(/-/g, '+').replace(/_/g, '=').replace(/~/g, '/'));
+    const epoch = JSON.parse(json)?.Statement?.[0]?.Condition?.DateLessThan?.['AWS:EpochTime'];
+    return typeof epoch === 'number' ? plausibleExpiry(epoch * 1000) : null;
+  } catch {
     return null;
   }
 };
+
+/**
+ * Read the issue time from a `:timestamp:` path segment, as used by token-in-path stream URLs
+ * @param pathname Path of the URL
+ * @returns Expiry timestamp in milliseconds or null
+ */
+const getPathTimestampExpiry = (pathname: string): number | null => {
+  const match = pathname.match(/:(\d{10}|\d{13}):/);
+  if (!match) return null;
+  const issuedAt = parseExpiryValue(match[1]);
+  return issuedAt === null ? null : issuedAt + SIGNED_URL_TTL_MS;
+};
+
+/**
+ * Work out when a signed video URL expires from the signals embedded in it
+ * Recognises exp/expires/Expires query parameters (including CloudFront canned
+ * policies), CloudFront custom policies, S3 presigned URLs and `:timestamp:`
+ * path segments
+ * @param url The URL to inspect
+ * @returns The expiry date or null if the URL carries no expiry signal
+ */
+export const getVideoUrlExpiry = (url: string): Date | null => {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+  
+  const params = urlObj.searchParams;
+  const explicit = params.get('exp') ?? params.get('expires') ?? params.get('Expires');
+  const expiry = (explicit !== null ? parseExpiryValue(explicit) : null)
+    ?? getAmzExpiry(params)
+    ?? getCloudFrontPolicyExpiry(params)
+    ?? getPathTimestampExpiry(urlObj.pathname);
+  
+  return expiry === null ? null : new Date(expiry);
+};
+
+/**
+ * Utility to check if a video URL has expired
+ * URLs without any expiry signal are never considered expired
+ * @param url The URL to check
+ * @param now Current time in milliseconds
+ * @returns Boolean indicating if the URL has expired
+ */
+export const isVideoUrlExpired = (url: string, now: number = Date.now()): boolean => {
+  const expiry = getVideoUrlExpiry(url);
+  return expiry !== null && expiry.getTime() <= now;
+};
+
+/**
+ * Work out how long to wait before refreshing a video URL
+ * @param url The URL to check
+ * @param leadTime How long before the expiry the refresh should happen
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds, or null if the URL carries no expiry signal
+ */
+export const getRefreshDelay = (
+  url: string,
+  leadTime: number = EXPIRY_REFRESH_LEAD_MS,
+  now: number = Date.now()
+): number | null => {
+  const expiry = getVideoUrlExpiry(url);
+  if (expiry === null) return null;
+  return getRefreshDelayForExpiry(expiry, leadTime, now);
+};
+
+/**
+ * Work out how long to wait before refreshing a URL with a known expiry
+ * @param expiry When the URL expires
+ * @param leadTime How long before the expiry the refresh should happen
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds
+ */
+export const getRefreshDelayForExpiry = (
+  expiry: Date,
+  leadTime: number = EXPIRY_REFRESH_LEAD_MS,
+  now: number = Date.now()
+): number => {
+  return Math.min(Math.max(expiry.getTime() - leadTime - now, 0), MAX_TIMER_DELAY_MS);
+};
@@ -0,0 +1,104 @@
+/**
+ * Titles the user has started watching, newest first.
+ *
+ * Kept in localStorage so the home page can offer them again on the next
+ * visit. A series keeps a single entry for the episode watched last.
+ */
+
+import { z } from 'zod';
+import { TMDBMultiMovieResult, TMDBMultiTvResult } from './tmdbService';
+import { defineSchema, lenientArray, titleResultSchema } from './tmdbSchemas';
+
+/**
+ * A title the user has watched
+ */
+export interface WatchHistoryEntry {
+  /** Movie, or the series an episode belongs to */
+  title: TMDBMultiMovieResult | TMDBMultiTvResult;
+  /** Episode watched last, for series */
+  episode?: {
+    season: number;
+    episode: number;
+    name: string;
+  };
+  watchedAt: number;
+}
+
+const WATCH_HISTORY_STORAGE_KEY = 'watch-history';
+
+// Entries kept; older ones drop off the end
+const MAX_ENTRIES = 20;
+
+// Entries written by older builds or other tabs may not have every field
+const watchHistorySchema = lenientArray(defineSchema<WatchHistoryEntry>()(z.object({
+  title: titleResultSchema,
+  episode: z
+    .object({ season: z.number(), episode: z.number(), name: z.string().catch('') })
+    .optional()
+    .catch(undefined),
+  watchedAt: z.number().catch(0),
+})));
+
+type Listener = (entries: WatchHistoryEntry[]) => void;
+
+const listeners = new Set<Listener>();
+
+// Read the stored history, dropping entries that can't be read and treating anything else unreadable as empty
+const readStoredHistory = (): WatchHistoryEntry[] => {
+  try {
+    const stored = localStorage.getItem(WATCH_HISTORY_STORAGE_KEY);
+    return watchHistorySchema.parse(stored ? JSON.parse(stored) : []);
+  } catch {
+    return [];
+  }
+};
+
+let history: WatchHistoryEntry[] = readStoredHistory();
+
+// Replace the history, persist it and tell the subscribers
+const setHistory = (entries: WatchHistoryEntry[]): void => {
+  history = entries;
+  try {
+    localStorage.setItem(WATCH_HISTORY_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled: the history only lasts for this visit
+  }
+  listeners.forEach((listener) => listener(history));
+};
+
+/**
+ * Get the watch history, newest first
+ * @returns The entries; the same array until the history changes
+ */
+export const getWatchHistory = (): WatchHistoryEntry[] => history;
+
+/**
+ * Record that a title started playing, moving it to the front of the history
+ * @param entry The title and, for series, the episode
+ * @param now Current time in milliseconds
+ */
+export const recordWatch = (entry: Omit<WatchHistoryEntry, 'watchedAt'>, now: number = Date.now()): void => {
+  const { id, media_type } = entry.title;
+  const others = history.filter(({ title }) => title.id !== id || title.media_type !== media_type);
+  setHistory([{ ...entry, watchedAt: now }, ...others].slice(0, MAX_ENTRIES));
+};
+
+/**
+ * Listen for changes to the watch history, including ones made in other tabs
+ * @param listener Called with the new entries
+ * @returns Function that stops listening
+ */
+export const subscribeToWatchHistory = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === WATCH_HISTORY_STORAGE_KEY) {
+      history = readStoredHistory();
+      listener(history);
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SOURCE_PROVIDERS?: string;
+  readonly VITE_DEFAULT_SOURCE_PROVIDER?: string;
+  readonly VITE_REFRESH_ENDPOINT?: string;
+  readonly VITE_RUNTIME_CONFIG_URL?: string;
+  readonly VITE_TMDB_API_KEY?: string;
+  readonly VITE_TMDB_READ_ACCESS_TOKEN?: string;
+  readonly VITE_TMDB_PROXY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,22 +1,40 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-  },
-  plugins: [
-    react(),
-    mode === 'development' &&
-    componentTagger(),
-  ].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  // Unprefixed variables stay on the dev server and never reach the bundle
+  const env = loadEnv(mode, process.cwd(), "");
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      proxy: {
+        // Forward refresh requests to the local stand-in (npm run refresh-server)
+        "/api/refresh": env.REFRESH_SERVER_URL || "http://localhost:8787",
+        // Same-origin TMDB proxy for VITE_TMDB_PROXY_URL=/api/tmdb, adding the v4 token server-side
+        ...(env.TMDB_READ_ACCESS_TOKEN && {
+          "/api/tmdb": {
+            target: "https://api.themoviedb.org",
+            changeOrigin: true,
+            rewrite: (requestPath: string) => requestPath.replace(/^\/api\/tmdb/, "/3"),
+            headers: { Authorization: `Bearer ${env.TMDB_READ_ACCESS_TOKEN}` },
+          },
+        }),
+      },
+    },
+    plugins: [
+      react(),
+      mode === 'development' &&
+      componentTagger(),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});